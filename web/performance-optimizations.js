@@ -82,98 +82,7 @@ class VisibilityTracker {
   }
 }
 
-// Optimized Event Batching
-class EventBatcher {
-  constructor(sdk, batchSize = 10, flushInterval = 5000) {
-    this.sdk = sdk;
-    this.batchSize = batchSize;
-    this.flushInterval = flushInterval;
-    this.batch = [];
-    this.timer = null;
-    this.setupAutoFlush();
-  }
-
-  add(eventData) {
-    this.batch.push({
-      ...eventData,
-      batched_at: Date.now()
-    });
-
-    if (this.batch.length >= this.batchSize) {
-      this.flush();
-    }
-  }
-
-  flush() {
-    if (this.batch.length === 0) return;
-
-    const events = [...this.batch];
-    this.batch = [];
-
-    // Send batched events
-    this.sendBatch(events);
-  }
-
-  setupAutoFlush() {
-    this.timer = setInterval(() => {
-      this.flush();
-    }, this.flushInterval);
-
-    // Flush on page unload
-    window.addEventListener('beforeunload', () => {
-      this.flush();
-    });
-
-    // Flush on visibility change (when user switches tabs)
-    document.addEventListener('visibilitychange', () => {
-      if (document.hidden) {
-        this.flush();
-      }
-    });
-  }
-
-  async sendBatch(events) {
-    try {
-      const batchData = {
-        affiliate_code: this.sdk.config.affiliateCode,
-        app_code: this.sdk.config.appCode,
-        batch: true,
-        events: events,
-        batch_size: events.length,
-        timestamp: Date.now()
-      };
-
-      // Use sendBeacon for reliability if available
-      if (navigator.sendBeacon) {
-        const formData = new FormData();
-        formData.append('data', JSON.stringify(batchData));
-        navigator.sendBeacon(this.sdk.config.baseUrl, formData);
-      } else {
-        // Fallback to fetch
-        await fetch(this.sdk.config.baseUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(batchData)
-        });
-      }
-
-      this.sdk.log('Batch sent successfully:', events.length, 'events');
-    } catch (error) {
-      this.sdk.logError('Failed to send batch:', error);
-      // Re-queue failed events
-      this.batch.unshift(...events);
-    }
-  }
-
-  destroy() {
-    if (this.timer) {
-      clearInterval(this.timer);
-    }
-    this.flush();
-  }
-}
+// Event batching is built into AffiliateSDK - see the `batching` config option
 
 // Performance Monitoring
 class PerformanceMonitor {
@@ -426,7 +335,6 @@ export {
   debounce,
   throttle,
   VisibilityTracker,
-  EventBatcher,
   PerformanceMonitor,
   ErrorHandler,
   MemoryManager
@@ -2,6 +2,10 @@ const typescript = require('@rollup/plugin-typescript');
 const resolve = require('@rollup/plugin-node-resolve');
 const commonjs = require('@rollup/plugin-commonjs');
 const terser = require('@rollup/plugin-terser');
+const path = require('path');
+
+// React bindings import the SDK from the main bundle instead of bundling a second copy
+const sdkEntry = path.resolve(__dirname, 'src/index.ts');
 
 module.exports = [
   // ES Module build
@@ -56,5 +60,113 @@ module.exports = [
       }),
       terser()
     ]
+  },
+  // React bindings ES Module build
+  {
+    input: 'src/react.tsx',
+    output: {
+      file: 'dist/react.esm.js',
+      format: 'es',
+      sourcemap: false,
+      paths: { [sdkEntry]: './index.esm.js' }
+    },
+    external: ['react', 'react-router-dom', sdkEntry],
+    plugins: [
+      resolve(),
+      commonjs(),
+      typescript({
+        tsconfig: false,
+        compilerOptions: {
+          target: 'es2015',
+          module: 'esnext',
+          jsx: 'react',
+          declaration: false,
+          removeComments: true,
+          esModuleInterop: true,
+          skipLibCheck: true
+        }
+      }),
+      terser()
+    ]
+  },
+  // React bindings CommonJS build
+  {
+    input: 'src/react.tsx',
+    output: {
+      file: 'dist/react.js',
+      format: 'cjs',
+      sourcemap: false,
+      exports: 'named',
+      paths: { [sdkEntry]: './index.js' }
+    },
+    external: ['react', 'react-router-dom', sdkEntry],
+    plugins: [
+      resolve(),
+      commonjs(),
+      typescript({
+        tsconfig: false,
+        compilerOptions: {
+          target: 'es2015',
+          module: 'esnext',
+          jsx: 'react',
+          declaration: false,
+          removeComments: true,
+          esModuleInterop: true,
+          skipLibCheck: true
+        }
+      }),
+      terser()
+    ]
+  },
+  // Server ES Module build
+  {
+    input: 'src/server.ts',
+    output: {
+      file: 'dist/server.esm.js',
+      format: 'es',
+      sourcemap: false
+    },
+    plugins: [
+      resolve(),
+      commonjs(),
+      typescript({
+        tsconfig: false,
+        compilerOptions: {
+          target: 'es2015',
+          module: 'esnext',
+          declaration: false,
+          removeComments: true,
+          esModuleInterop: true,
+          skipLibCheck: true
+        }
+      }),
+      terser()
+    ]
+  },
+  // Server CommonJS build
+  {
+    input: 'src/server.ts',
+    output: {
+      file: 'dist/server.js',
+      format: 'cjs',
+      sourcemap: false,
+      exports: 'named'
+    },
+    plugins: [
+      resolve(),
+      commonjs(),
+      typescript({
+        tsconfig: false,
+        compilerOptions: {
+          target: 'es2015',
+          module: 'esnext',
+          declaration: false,
+          removeComments: true,
+          esModuleInterop: true,
+          skipLibCheck: true
+        }
+      }),
+      terser()
+    ]
   }
-];
\ No newline at end of file
+];
@@ -0,0 +1,65 @@
+/**
+ * @jest-environment jsdom
+ */
+import { AffiliateSDK, GtagAdapter } from '../index';
+
+describe('GtagAdapter', () => {
+  let requests: string[];
+
+  beforeEach(() => {
+    localStorage.clear();
+    requests = [];
+    (window as any).dataLayer = [];
+    (window as any).gtag = function() { (window as any).dataLayer.push(arguments); };
+    (globalThis as any).fetch = jest.fn(async (url: string) => {
+      requests.push(url);
+      return {
+        ok: true,
+        status: 200,
+        headers: { get: () => null },
+        json: async () => ({ settings: { google_ads_id: 'AW-1' } }),
+      };
+    });
+  });
+
+  const tracked = (eventType: string) => requests.filter(url => url.includes(`event_type=${eventType}`));
+
+  it('forwards gtag events from the page', async () => {
+    const sdk = new AffiliateSDK({
+      affiliateCode: 'TEST',
+      identity: 'device_id',
+      autoTrack: {},
+      analyticsAdapters: [new GtagAdapter()],
+    });
+    await sdk.initialize();
+
+    (window as any).gtag('event', 'sign_up', { method: 'email' });
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(tracked('sign_up')).toHaveLength(1);
+    sdk.destroy();
+  });
+
+  it('ignores the gtag calls of the Google Ads pixel', async () => {
+    const sdk = new AffiliateSDK({
+      affiliateCode: 'TEST',
+      identity: 'device_id',
+      autoTrack: {},
+      enablePixels: true,
+      analyticsAdapters: [new GtagAdapter()],
+    });
+    await sdk.initialize();
+
+    await sdk.trackEvent('form_submit');
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const pixelEvents = (window as any).dataLayer
+      .filter((args: IArguments) => args[0] === 'event')
+      .map((args: IArguments) => args[1]);
+    expect(pixelEvents).toContain('generate_lead');
+    expect(tracked('form_submit')).toHaveLength(1);
+    expect(tracked('generate_lead')).toHaveLength(0);
+    expect(tracked('custom_event')).toHaveLength(0);
+    sdk.destroy();
+  });
+});
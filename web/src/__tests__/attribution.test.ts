@@ -0,0 +1,94 @@
+import { Touchpoint, attribute, lookbackWindow } from '../attribution';
+
+const NOW = Date.UTC(2024, 0, 31);
+const DAY = 24 * 60 * 60 * 1000;
+
+function touch(clickId: string, daysAgo: number, method = 'universal_deep_link'): Touchpoint {
+  return { click_id: clickId, source: 'aff', method, type: 'click', timestamp: NOW - daysAgo * DAY };
+}
+
+function weights(touchpoints: Touchpoint[], model: Parameters<typeof attribute>[1]): Record<string, number> {
+  const result: Record<string, number> = {};
+  attribute(touchpoints, model, undefined, undefined, NOW).credits.forEach(credit => {
+    result[credit.touchpoint.click_id] = credit.weight;
+  });
+  return result;
+}
+
+describe('attribute', () => {
+  const chain = [touch('a', 10), touch('b', 8), touch('c', 5), touch('d', 1)];
+
+  it('gives first_touch all credit to the oldest click', () => {
+    expect(weights(chain, 'first_touch')).toEqual({ a: 1, b: 0, c: 0, d: 0 });
+    expect(attribute(chain, 'first_touch', undefined, undefined, NOW).touchpoint?.click_id).toBe('a');
+  });
+
+  it('gives last_touch all credit to the latest click', () => {
+    expect(weights(chain, 'last_touch')).toEqual({ a: 0, b: 0, c: 0, d: 1 });
+    expect(attribute(chain, 'last_touch', undefined, undefined, NOW).touchpoint?.click_id).toBe('d');
+  });
+
+  it('keeps last_touch on a stronger method over a later weaker one', () => {
+    const touchpoints = [touch('store', 3, 'app_store_deep_link'), touch('cookie', 1, 'cookie_attribution')];
+    expect(weights(touchpoints, 'last_touch')).toEqual({ store: 1, cookie: 0 });
+  });
+
+  it('splits linear credit equally', () => {
+    expect(weights(chain, 'linear')).toEqual({ a: 0.25, b: 0.25, c: 0.25, d: 0.25 });
+  });
+
+  it('gives position_based 40% to the ends and shares 20% between the middle', () => {
+    const result = weights(chain, 'position_based');
+    expect(result.a).toBeCloseTo(0.4);
+    expect(result.b).toBeCloseTo(0.1);
+    expect(result.c).toBeCloseTo(0.1);
+    expect(result.d).toBeCloseTo(0.4);
+  });
+
+  it('splits position_based evenly between two clicks and fully to one', () => {
+    expect(weights(chain.slice(0, 2), 'position_based')).toEqual({ a: 0.5, b: 0.5 });
+    expect(weights(chain.slice(0, 1), 'position_based')).toEqual({ a: 1 });
+  });
+
+  it('sums every model to 1', () => {
+    (['first_touch', 'last_touch', 'linear', 'position_based'] as const).forEach(model => {
+      const total = Object.values(weights(chain, model)).reduce((sum, weight) => sum + weight, 0);
+      expect(total).toBeCloseTo(1);
+    });
+  });
+
+  it('returns no touchpoint without clicks', () => {
+    const result = attribute([], 'linear', undefined, undefined, NOW);
+    expect(result).toEqual({ model: 'linear', touchpoint: null, credits: [], expired: false });
+  });
+});
+
+describe('attribute with lookback windows', () => {
+  it('leaves clicks outside the click window without credit', () => {
+    const result = attribute([touch('old', 40), touch('new', 2)], 'linear', lookbackWindow(), undefined, NOW);
+    expect(result.credits.map(credit => credit.touchpoint.click_id)).toEqual(['new']);
+    expect(result.credits[0].weight).toBe(1);
+  });
+
+  it('uses the shorter view window for views', () => {
+    const view: Touchpoint = { ...touch('view', 2, 'view_through'), type: 'view' };
+    const result = attribute([view], 'last_touch', lookbackWindow(), undefined, NOW);
+    expect(result).toMatchObject({ touchpoint: null, expired: true });
+  });
+
+  it('applies the window of the event type', () => {
+    const options = { lookback: { lead: { click: 7 * DAY } } };
+    const touchpoints = [touch('a', 10), touch('b', 5)];
+    expect(weights(touchpoints, 'first_touch')).toEqual({ a: 1, b: 0 });
+
+    const result = attribute(touchpoints, 'first_touch', lookbackWindow(options, 'lead'), undefined, NOW);
+    expect(result.touchpoint?.click_id).toBe('b');
+  });
+
+  it('lets a weaker click win once the stronger one left its window', () => {
+    const options = { defaultLookback: { click: 4 * DAY } };
+    const touchpoints = [touch('store', 5, 'app_store_deep_link'), touch('cookie', 1, 'cookie_attribution')];
+    const result = attribute(touchpoints, 'last_touch', lookbackWindow(options), undefined, NOW);
+    expect(result.touchpoint?.click_id).toBe('cookie');
+  });
+});
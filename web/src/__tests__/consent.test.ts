@@ -0,0 +1,54 @@
+import { parseTCString } from '../consent';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+// Core segment with the given fields, everything else zero
+function encodeCore(fields: { version?: number; cmpId?: number; specialFeatures?: number[]; purposes?: number[] }): string {
+  const bits = new Array(240).fill('0');
+  const writeInt = (offset: number, length: number, value: number) => {
+    value.toString(2).padStart(length, '0').split('').forEach((bit, i) => { bits[offset + i] = bit; });
+  };
+  const writeFlags = (offset: number, ids: number[]) => {
+    ids.forEach(id => { bits[offset + id - 1] = '1'; });
+  };
+
+  writeInt(0, 6, fields.version ?? 2);
+  writeInt(78, 12, fields.cmpId ?? 0);
+  writeFlags(140, fields.specialFeatures || []);
+  writeFlags(152, fields.purposes || []);
+
+  let encoded = '';
+  for (let i = 0; i < bits.length; i += 6) {
+    encoded += ALPHABET[parseInt(bits.slice(i, i + 6).join(''), 2)];
+  }
+  return encoded;
+}
+
+describe('parseTCString', () => {
+  it('reads purpose consents from bit 152', () => {
+    const parsed = parseTCString(encodeCore({ purposes: [1, 7, 10, 24] }));
+    expect(parsed?.purposeConsents).toEqual([1, 7, 10, 24]);
+    expect(parsed?.specialFeatureOptIns).toEqual([]);
+  });
+
+  it('reads special feature opt-ins from bit 140', () => {
+    const parsed = parseTCString(encodeCore({ specialFeatures: [1, 2, 12] }));
+    expect(parsed?.specialFeatureOptIns).toEqual([1, 2, 12]);
+    expect(parsed?.purposeConsents).toEqual([]);
+  });
+
+  it('reads the version and CMP id', () => {
+    expect(parseTCString(encodeCore({ cmpId: 300 }))).toMatchObject({ version: 2, cmpId: 300 });
+  });
+
+  it('ignores segments after the core one', () => {
+    const parsed = parseTCString(encodeCore({ purposes: [3] }) + '.YAAAAAAAAAAA');
+    expect(parsed?.purposeConsents).toEqual([3]);
+  });
+
+  it('rejects other versions, short strings and invalid characters', () => {
+    expect(parseTCString(encodeCore({ version: 1 }))).toBeNull();
+    expect(parseTCString(encodeCore({}).slice(0, 20))).toBeNull();
+    expect(parseTCString('CO+/' + encodeCore({}).slice(4))).toBeNull();
+  });
+});
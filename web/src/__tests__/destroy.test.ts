@@ -0,0 +1,52 @@
+/**
+ * @jest-environment jsdom
+ */
+import { AffiliateSDK } from '../index';
+
+describe('destroy', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    (globalThis as any).fetch = jest.fn(async () => (
+      { ok: true, status: 200, headers: { get: () => null }, json: async () => ({}) }
+    ));
+  });
+
+  it('tears down what a pending initialize() sets up', async () => {
+    const originalPushState = history.pushState;
+    const addListener = jest.spyOn(window, 'addEventListener');
+    const removeListener = jest.spyOn(window, 'removeEventListener');
+    const clearTimer = jest.spyOn(globalThis, 'clearInterval');
+
+    const sdk = new AffiliateSDK({ affiliateCode: 'TEST', identity: 'device_id' });
+    const initialized = sdk.initialize();
+    await sdk.destroy();
+    await initialized;
+
+    expect(history.pushState).toBe(originalPushState);
+    expect(addListener.mock.calls.length).toBeGreaterThan(0);
+    expect(removeListener).toHaveBeenCalledTimes(addListener.mock.calls.length);
+    expect(clearTimer).toHaveBeenCalled();
+
+    addListener.mockRestore();
+    removeListener.mockRestore();
+    clearTimer.mockRestore();
+  });
+
+  it('shares one run between concurrent initialize() calls', async () => {
+    const sdk = new AffiliateSDK({ affiliateCode: 'TEST', identity: 'device_id', autoTrack: {} });
+    await Promise.all([sdk.initialize(), sdk.initialize()]);
+
+    const pageLoads = (globalThis as any).fetch.mock.calls
+      .filter(([url]: [string]) => url.includes('event_type=page_load'));
+    expect(pageLoads).toHaveLength(1);
+    await sdk.destroy();
+  });
+
+  it('ignores initialize() after destroy()', async () => {
+    const sdk = new AffiliateSDK({ affiliateCode: 'TEST', identity: 'device_id' });
+    await sdk.destroy();
+    await sdk.initialize();
+
+    expect((globalThis as any).fetch).not.toHaveBeenCalled();
+  });
+});
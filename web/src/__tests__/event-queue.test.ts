@@ -0,0 +1,41 @@
+/**
+ * @jest-environment jsdom
+ */
+import { AffiliateSDK } from '../index';
+
+describe('persisted event queue', () => {
+  const QUEUE_KEY = 'affiliate_sdk_TEST_event_queue';
+
+  const storedEvent = (id: string) => ({
+    unique_code: 'TEST',
+    event_type: 'stored_event',
+    event_id: id,
+    timestamp: Date.now(),
+    retry_count: 1,
+    queued_at: Date.now(),
+  });
+  const storedIds = () => JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]')
+    .filter((event: any) => event.event_type === 'stored_event')
+    .map((event: any) => event.event_id);
+  const flush = () => new Promise(resolve => setTimeout(resolve, 20));
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('keeps events in storage until they are sent', async () => {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(['stored-1', 'stored-2', 'stored-3'].map(storedEvent)));
+
+    // The second event never gets an answer, as if the page closed mid-flush
+    (globalThis as any).fetch = jest.fn((url: string) => {
+      if (url.includes('event_id=stored-2')) return new Promise(() => {});
+      return Promise.resolve({ ok: true, status: 200, headers: { get: () => null }, json: async () => ({}) });
+    });
+
+    const sdk = new AffiliateSDK({ affiliateCode: 'TEST', identity: 'device_id', autoTrack: {}, crossTab: false });
+    sdk.initialize();
+    await flush();
+
+    expect(storedIds()).toEqual(['stored-2', 'stored-3']);
+  });
+});
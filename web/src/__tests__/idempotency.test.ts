@@ -0,0 +1,86 @@
+/**
+ * @jest-environment jsdom
+ */
+import { AffiliateSDK } from '../index';
+import { IdempotencyLedger, purchaseIdempotencyKeys } from '../idempotency';
+import { ValueStorage } from '../storage';
+
+function memoryStorage(): ValueStorage & { value: string | null } {
+  return {
+    value: null,
+    read() { return this.value; },
+    write(value: string) { this.value = value; },
+  };
+}
+
+describe('IdempotencyLedger', () => {
+  const NOW = Date.UTC(2024, 0, 1);
+
+  it('finds a recorded purchase until the TTL passes', () => {
+    const ledger = new IdempotencyLedger(memoryStorage(), 1000);
+    ledger.record('tx:1', 'event-1', NOW);
+
+    expect(ledger.find(['tx:1'], NOW + 999)).toEqual({ at: NOW, eventId: 'event-1' });
+    expect(ledger.find(['tx:1'], NOW + 1000)).toBeNull();
+  });
+
+  it('only removes the entry of the same event', () => {
+    const ledger = new IdempotencyLedger(memoryStorage());
+    ledger.record('tx:1', 'event-1', NOW);
+
+    ledger.remove('tx:1', 'event-2');
+    expect(ledger.find(['tx:1'], NOW)).not.toBeNull();
+
+    ledger.remove('tx:1', 'event-1');
+    expect(ledger.find(['tx:1'], NOW)).toBeNull();
+  });
+
+  it('matches derived keys across a bucket boundary', () => {
+    const purchase = { product_id: 'p', amount: 5, currency: 'USD' };
+    const ledger = new IdempotencyLedger(memoryStorage());
+    ledger.record(purchaseIdempotencyKeys(purchase, 1000, 1999)[0], 'event-1', 1999);
+
+    expect(ledger.find(purchaseIdempotencyKeys(purchase, 1000, 2001), 2001)).not.toBeNull();
+  });
+});
+
+describe('purchase deduplication', () => {
+  let requests: string[];
+
+  beforeEach(() => {
+    localStorage.clear();
+    requests = [];
+    (globalThis as any).fetch = jest.fn(async (url: string) => {
+      requests.push(url);
+      return { ok: true, status: 200, headers: { get: () => null }, json: async () => ({}) };
+    });
+  });
+
+  const purchases = () => requests.filter(url => url.includes('event_type=purchase'));
+
+  it('sends concurrent purchases with the same transaction_id once', async () => {
+    const sdk = new AffiliateSDK({ affiliateCode: 'TEST', identity: 'device_id', autoTrack: {} });
+    await sdk.initialize();
+
+    await Promise.all([
+      sdk.trackPurchase({ amount: 5, productId: 'p', transactionId: 't1' }),
+      sdk.trackPurchase({ amount: 5, productId: 'p', transactionId: 't1' }),
+    ]);
+
+    expect(purchases()).toHaveLength(1);
+    sdk.destroy();
+  });
+
+  it('lets a purchase dropped by a middleware be sent again', async () => {
+    const sdk = new AffiliateSDK({ affiliateCode: 'TEST', identity: 'device_id', autoTrack: {} });
+    await sdk.initialize();
+
+    const remove = sdk.use((payload, context) => (context.stage === 'server' ? null : payload));
+    await sdk.trackPurchase({ amount: 5, productId: 'p', transactionId: 't2' });
+    remove();
+    await sdk.trackPurchase({ amount: 5, productId: 'p', transactionId: 't2' });
+
+    expect(purchases()).toHaveLength(1);
+    sdk.destroy();
+  });
+});
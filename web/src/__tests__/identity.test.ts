@@ -0,0 +1,51 @@
+/**
+ * @jest-environment jsdom
+ */
+import { AffiliateSDK, AffiliateSDKConfig } from '../index';
+
+describe('attribution cookie fingerprint', () => {
+  let requests: string[];
+
+  beforeEach(() => {
+    localStorage.clear();
+    requests = [];
+    document.cookie = 'affiliate_click_id=click-1; path=/';
+    document.cookie = 'affiliate_fingerprint=fp-from-cookie; path=/';
+    (globalThis as any).fetch = jest.fn(async (url: string) => {
+      requests.push(url);
+      return { ok: true, status: 200, headers: { get: () => null }, json: async () => ({}) };
+    });
+  });
+
+  const attributionRequest = () => requests.find(url => url.includes('event_type=app_attribution'));
+  const storedValues = () => Object.keys(localStorage).map(key => localStorage.getItem(key)).join('\n');
+
+  async function run(config: Partial<AffiliateSDKConfig>): Promise<void> {
+    const sdk = new AffiliateSDK({ affiliateCode: 'TEST', autoTrack: {}, ...config });
+    await sdk.initialize();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await sdk.destroy();
+  }
+
+  it('leaves it out with the device_id strategy', async () => {
+    await run({ identity: 'device_id' });
+
+    expect(attributionRequest()).toContain('click_id=click-1');
+    expect(attributionRequest()).not.toContain('fp-from-cookie');
+    expect(storedValues()).not.toContain('fp-from-cookie');
+  });
+
+  it('leaves it out without fingerprinting consent', async () => {
+    await run({ identity: 'fingerprint', consent: { analytics: true } });
+
+    expect(attributionRequest()).toContain('click_id=click-1');
+    expect(attributionRequest()).not.toContain('fp-from-cookie');
+    expect(storedValues()).not.toContain('fp-from-cookie');
+  });
+
+  it('sends it with the cookie strategy', async () => {
+    await run({ identity: 'cookie' });
+
+    expect(attributionRequest()).toContain('fp-from-cookie');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @jest-environment jsdom
+ */
+import { AffiliateSDK } from '../index';
+import { DEFAULT_SESSION_TIMEOUT, SessionManager } from '../session';
+import { ValueStorage } from '../storage';
+
+function memoryStorage(): ValueStorage {
+  let value: string | null = null;
+  return {
+    read: () => value,
+    write: (next: string) => { value = next; },
+  };
+}
+
+describe('SessionManager', () => {
+  const NOW = new Date(2024, 0, 1, 12).getTime();
+
+  it('resumes an ended session within the timeout', () => {
+    const sessions = new SessionManager(memoryStorage());
+    sessions.start('s1', null, NOW);
+    sessions.markEnded(NOW);
+
+    expect(sessions.expiryReason(NOW + DEFAULT_SESSION_TIMEOUT)).toBeNull();
+    sessions.touch(NOW + 1000);
+    expect(sessions.current()).toMatchObject({ id: 's1', endedAt: NOW, eventCount: 1 });
+  });
+
+  it('expires an ended session after the timeout', () => {
+    const sessions = new SessionManager(memoryStorage());
+    sessions.start('s1', null, NOW);
+    sessions.markEnded(NOW);
+
+    expect(sessions.expiryReason(NOW + DEFAULT_SESSION_TIMEOUT + 1)).toBe('timeout');
+  });
+});
+
+describe('session lifecycle', () => {
+  let requests: string[];
+  let hidden: boolean;
+
+  beforeEach(() => {
+    localStorage.clear();
+    requests = [];
+    hidden = false;
+    Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden });
+    (globalThis as any).fetch = jest.fn(async (url: string) => {
+      requests.push(url);
+      return { ok: true, status: 200, headers: { get: () => null }, json: async () => ({}) };
+    });
+  });
+
+  const setHidden = (value: boolean) => {
+    hidden = value;
+    document.dispatchEvent(new Event('visibilitychange'));
+  };
+  const events = (eventType: string) => requests.filter(url => url.includes(`event_type=${eventType}`));
+  const flush = () => new Promise(resolve => setTimeout(resolve, 20));
+
+  it('keeps the session when the page comes back within the timeout', async () => {
+    const sdk = new AffiliateSDK({ affiliateCode: 'TEST', identity: 'device_id', autoTrack: {}, crossTab: false });
+    await sdk.initialize();
+
+    setHidden(true);
+    await flush();
+    setHidden(false);
+    await sdk.trackEvent('signup');
+    setHidden(true);
+    await flush();
+
+    const sessionIds = requests
+      .filter(url => url.includes('event_type='))
+      .map(url => new URL(url).searchParams.get('session_id'));
+    expect(new Set(sessionIds).size).toBe(1);
+    expect(events('signup')).toHaveLength(1);
+    expect(events('session_start')).toHaveLength(1);
+    expect(events('session_end')).toHaveLength(1);
+    sdk.destroy();
+  });
+});
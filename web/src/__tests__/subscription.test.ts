@@ -0,0 +1,64 @@
+import {
+  SubscriptionState,
+  SubscriptionStatus,
+  SubscriptionTransition,
+  applySubscriptionTransition,
+  initialSubscriptionState,
+} from '../subscription';
+
+const NOW = Date.UTC(2024, 0, 1);
+const MONTH = 30 * 24 * 60 * 60 * 1000;
+
+function stateWith(status: SubscriptionStatus): SubscriptionState {
+  return { ...initialSubscriptionState(), status, periodStart: NOW - MONTH, periodEnd: NOW };
+}
+
+describe('applySubscriptionTransition', () => {
+  const impossible: Array<[SubscriptionStatus, SubscriptionTransition]> = [
+    ['none', 'subscription_renewed'],
+    ['none', 'trial_converted'],
+    ['none', 'subscription_cancelled'],
+    ['none', 'subscription_expired'],
+    ['none', 'billing_issue'],
+    ['trial', 'trial_started'],
+    ['trial', 'subscription_started'],
+    ['trial', 'subscription_renewed'],
+    ['active', 'trial_started'],
+    ['active', 'subscription_started'],
+    ['active', 'trial_converted'],
+    ['cancelled', 'subscription_renewed'],
+    ['cancelled', 'billing_issue'],
+    ['cancelled', 'subscription_cancelled'],
+    ['expired', 'subscription_renewed'],
+    ['expired', 'subscription_cancelled'],
+    ['expired', 'subscription_expired'],
+  ];
+
+  it.each(impossible)('rejects %s -> %s', (status, transition) => {
+    expect(applySubscriptionTransition(stateWith(status), transition, {}, NOW)).toBeNull();
+  });
+
+  it('walks a trial through conversion, renewal, cancellation and expiry', () => {
+    let state: SubscriptionState | null = initialSubscriptionState();
+    state = applySubscriptionTransition(state, 'trial_started', { periodEnd: NOW + MONTH }, NOW);
+    expect(state?.status).toBe('trial');
+
+    state = applySubscriptionTransition(state!, 'trial_converted', { periodEnd: NOW + 2 * MONTH }, NOW + MONTH);
+    expect(state?.status).toBe('active');
+
+    state = applySubscriptionTransition(state!, 'subscription_renewed', {}, NOW + 2 * MONTH);
+    expect(state).toMatchObject({ status: 'active', renewals: 1, periodEnd: NOW + 3 * MONTH });
+
+    state = applySubscriptionTransition(state!, 'subscription_cancelled', {}, NOW + 2 * MONTH);
+    expect(state?.status).toBe('cancelled');
+
+    state = applySubscriptionTransition(state!, 'subscription_expired', {}, NOW + 3 * MONTH);
+    expect(state?.status).toBe('expired');
+  });
+
+  it('keeps the state untouched when rejecting', () => {
+    const state = stateWith('expired');
+    applySubscriptionTransition(state, 'subscription_renewed', {}, NOW);
+    expect(state).toEqual(stateWith('expired'));
+  });
+});
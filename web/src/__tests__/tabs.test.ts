@@ -0,0 +1,69 @@
+/**
+ * @jest-environment jsdom
+ */
+import { AffiliateSDK } from '../index';
+
+describe('cross-tab coordination with consent', () => {
+  const LEASE_KEY = 'affiliate_sdk_TEST_tab_leader';
+  let requests: string[];
+
+  beforeEach(() => {
+    localStorage.clear();
+    requests = [];
+    (globalThis as any).fetch = jest.fn(async (url: string) => {
+      requests.push(url);
+      return { ok: true, status: 200, headers: { get: () => null }, json: async () => ({}) };
+    });
+  });
+
+  const events = (eventType: string) => requests.filter(url => url.includes(`event_type=${eventType}`));
+  const flush = () => new Promise(resolve => setTimeout(resolve, 20));
+
+  it('releases the lease and ends the session on pagehide after consent', async () => {
+    const sdk = new AffiliateSDK({
+      affiliateCode: 'TEST',
+      identity: 'device_id',
+      autoTrack: {},
+      consent: { analytics: false },
+    });
+    await sdk.initialize();
+    expect(localStorage.getItem(LEASE_KEY)).toBeNull();
+
+    sdk.setConsent({ analytics: true });
+    await flush();
+    expect(localStorage.getItem(LEASE_KEY)).not.toBeNull();
+
+    window.dispatchEvent(new Event('pagehide'));
+    await flush();
+
+    expect(localStorage.getItem(LEASE_KEY)).toBeNull();
+    expect(events('session_end')).toHaveLength(1);
+    await sdk.destroy();
+  });
+
+  it('joins the tabs and restores the queue when consent arrives during initialize()', async () => {
+    localStorage.setItem('affiliate_sdk_TEST_event_queue', JSON.stringify([{
+      unique_code: 'TEST',
+      event_type: 'stored_event',
+      event_id: 'stored-1',
+      timestamp: Date.now(),
+      retry_count: 1,
+      queued_at: Date.now(),
+    }]));
+
+    const sdk = new AffiliateSDK({
+      affiliateCode: 'TEST',
+      identity: 'device_id',
+      autoTrack: {},
+      consent: { analytics: false },
+    });
+    const initialized = sdk.initialize();
+    sdk.setConsent({ analytics: true });
+    await initialized;
+    await flush();
+
+    expect(localStorage.getItem(LEASE_KEY)).not.toBeNull();
+    expect(events('stored_event')).toHaveLength(1);
+    await sdk.destroy();
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Callback adapters use to hand events to the SDK
+ */
+export type AdapterTrack = (eventName: string, parameters: Record<string, any>) => void;
+
+/**
+ * Analytics adapter: hooks into another analytics API and forwards its
+ * events. `install` returns a function that removes the hook again.
+ */
+export interface AnalyticsAdapter {
+  readonly name: string;
+  install(track: AdapterTrack): () => void;
+}
+
+/**
+ * Options shared by the built-in adapters
+ */
+export interface AdapterOptions {
+  events?: string[]; // Only forward these events (default: all)
+  eventMap?: Record<string, string>; // Rename events before forwarding
+}
+
+/**
+ * Console pattern: turns a matching console.log call into an event
+ */
+export interface ConsolePattern {
+  match: string | RegExp; // Tested against the first argument
+  event: string | ((message: string, match: RegExpMatchArray | null) => string | null);
+  fields?: Record<string, string | string[]>; // Event field -> source field(s) in the second argument, first non-empty wins
+  includeData?: boolean; // Also forward the remaining fields of the second argument (default: true)
+  transform?: (data: any, message: string) => Record<string, any> | null; // Custom mapping, null skips the call
+}
+
+/**
+ * Console adapter options
+ */
+export interface ConsoleAdapterOptions extends AdapterOptions {
+  patterns: ConsolePattern[];
+}
+
+// Messages the SDK writes itself must never be turned into events
+const SDK_LOG_PREFIX = '[AffiliateSDK]';
+
+/**
+ * Apply the `events` allowlist and `eventMap`, returning the final name or null
+ */
+function resolveEventName(eventName: string, options: AdapterOptions): string | null {
+  if (!eventName) return null;
+  if (options.events && options.events.indexOf(eventName) === -1) return null;
+  return options.eventMap?.[eventName] || eventName;
+}
+
+/**
+ * Pick the first non-empty source field for every mapped field
+ */
+function mapFields(data: Record<string, any>, fields: Record<string, string | string[]>): Record<string, any> {
+  const mapped: Record<string, any> = {};
+
+  Object.keys(fields).forEach(target => {
+    const sources = ([] as string[]).concat(fields[target]);
+    for (const source of sources) {
+      const value = source.split('.').reduce((item: any, key) => (item == null ? undefined : item[key]), data);
+      if (value !== undefined && value !== null && value !== '') {
+        mapped[target] = value;
+        break;
+      }
+    }
+  });
+
+  return mapped;
+}
+
+/**
+ * Forwards `dataLayer.push({ event: ... })` calls (Google Tag Manager)
+ */
+export class DataLayerAdapter implements AnalyticsAdapter {
+  readonly name = 'dataLayer';
+
+  constructor(private readonly options: AdapterOptions = {}) {}
+
+  install(track: AdapterTrack): () => void {
+    const w = window as any;
+    w.dataLayer = w.dataLayer || [];
+    const dataLayer = w.dataLayer;
+    const originalPush = dataLayer.push;
+    let active = true;
+
+    dataLayer.push = (...items: any[]) => {
+      const result = originalPush.apply(dataLayer, items);
+
+      if (active) {
+        items.forEach(item => {
+          // Skip gtag() argument lists and GTM's own lifecycle events
+          if (!item || typeof item !== 'object' || Array.isArray(item) || typeof item.length === 'number') return;
+          if (typeof item.event !== 'string' || item.event.indexOf('gtm.') === 0) return;
+
+          const { event, ...parameters } = item;
+          const eventName = resolveEventName(event, this.options);
+          if (eventName) track(eventName, parameters);
+        });
+      }
+
+      return result;
+    };
+
+    return () => {
+      active = false;
+      if (dataLayer.push !== originalPush) {
+        dataLayer.push = originalPush;
+      }
+    };
+  }
+}
+
+/**
+ * Forwards `gtag('event', name, params)` calls
+ */
+export class GtagAdapter implements AnalyticsAdapter {
+  readonly name = 'gtag';
+
+  constructor(private readonly options: AdapterOptions = {}) {}
+
+  install(track: AdapterTrack): () => void {
+    const w = window as any;
+    const originalGtag = w.gtag;
+    if (typeof originalGtag !== 'function') {
+      return () => {};
+    }
+
+    const options = this.options;
+    let active = true;
+    const wrapper = function(this: any, ...args: any[]) {
+      const result = originalGtag.apply(this, args);
+
+      if (active && args[0] === 'event' && typeof args[1] === 'string') {
+        const eventName = resolveEventName(args[1], options);
+        if (eventName) track(eventName, args[2] || {});
+      }
+
+      return result;
+    };
+    w.gtag = wrapper;
+
+    return () => {
+      active = false;
+      if (w.gtag === wrapper) {
+        w.gtag = originalGtag;
+      }
+    };
+  }
+}
+
+/**
+ * Forwards Segment-style `analytics.track(event, properties)` calls
+ */
+export class SegmentAdapter implements AnalyticsAdapter {
+  readonly name = 'segment';
+
+  constructor(private readonly options: AdapterOptions = {}) {}
+
+  install(track: AdapterTrack): () => void {
+    const analytics = (window as any).analytics;
+    if (!analytics) {
+      return () => {};
+    }
+
+    let active = true;
+    const forward = (event: string, properties: Record<string, any>) => {
+      if (!active) return;
+      const eventName = resolveEventName(event, this.options);
+      if (eventName) track(eventName, properties || {});
+    };
+
+    // analytics.js replaces the snippet stub once loaded, so prefer its event emitter
+    if (typeof analytics.on === 'function') {
+      const handler = (event: string, properties: Record<string, any>) => forward(event, properties);
+      analytics.on('track', handler);
+
+      return () => {
+        active = false;
+        if (typeof analytics.off === 'function') {
+          analytics.off('track', handler);
+        }
+      };
+    }
+
+    const originalTrack = analytics.track;
+    if (typeof originalTrack !== 'function') {
+      return () => {};
+    }
+
+    const wrapper = function(this: any, event: string, properties: Record<string, any>, ...rest: any[]) {
+      forward(event, properties);
+      return originalTrack.call(this, event, properties, ...rest);
+    };
+    analytics.track = wrapper;
+
+    return () => {
+      active = false;
+      if (analytics.track === wrapper) {
+        analytics.track = originalTrack;
+      }
+    };
+  }
+}
+
+/**
+ * Turns console.log calls matching user-defined patterns into events.
+ * Off unless explicitly configured; the original console.log is restored on removal.
+ */
+export class ConsoleAdapter implements AnalyticsAdapter {
+  readonly name = 'console';
+
+  constructor(private readonly options: ConsoleAdapterOptions) {}
+
+  install(track: AdapterTrack): () => void {
+    const originalLog = console.log;
+    const options = this.options;
+    let active = true;
+
+    const wrapper = function(this: any, ...args: any[]) {
+      originalLog.apply(console, args);
+
+      const message = args[0];
+      if (!active || typeof message !== 'string' || message.indexOf(SDK_LOG_PREFIX) === 0) return;
+
+      try {
+        for (const pattern of options.patterns) {
+          let match: RegExpMatchArray | null = null;
+          if (typeof pattern.match === 'string') {
+            if (message.indexOf(pattern.match) === -1) continue;
+          } else {
+            match = message.match(pattern.match);
+            if (!match) continue;
+          }
+
+          const rawName = typeof pattern.event === 'function' ? pattern.event(message, match) : pattern.event;
+          const eventName = rawName ? resolveEventName(rawName, options) : null;
+          const data = args[1] && typeof args[1] === 'object' ? args[1] : {};
+
+          let parameters: Record<string, any> | null;
+          if (pattern.transform) {
+            parameters = pattern.transform(data, message);
+          } else {
+            const mapped = pattern.fields ? mapFields(data, pattern.fields) : {};
+            parameters = pattern.includeData === false ? mapped : { ...data, ...mapped };
+          }
+
+          if (eventName && parameters) {
+            track(eventName, parameters);
+          }
+          break; // First matching pattern wins
+        }
+      } catch (e) {
+        // Never let tracking break the app's logging
+      }
+    };
+    console.log = wrapper;
+
+    return () => {
+      active = false;
+      if (console.log === wrapper) {
+        console.log = originalLog;
+      }
+    };
+  }
+}
@@ -0,0 +1,220 @@
+import { ValueStorage } from './storage';
+
+/**
+ * How conversion credit is split between touchpoints
+ * - first_touch / last_touch: all credit to the first or the last click
+ * - linear: equal credit to every click
+ * - position_based: 40% first, 40% last, 20% shared by the clicks in between
+ */
+export type AttributionModel = 'first_touch' | 'last_touch' | 'linear' | 'position_based';
+
+/**
+ * How long after a touch an event is still attributed to it
+ */
+export interface AttributionWindow {
+  click?: number; // Default: 30 days
+  view?: number; // Default: 1 day
+}
+
+/**
+ * Attribution options
+ */
+export interface AttributionOptions {
+  model?: AttributionModel; // Touch sent with events (default: last_touch)
+  lookback?: Record<string, AttributionWindow>; // Windows per event type, e.g. { lead: { click: 86400000 } }
+  defaultLookback?: AttributionWindow; // Window for other event types
+  methodPriority?: string[]; // Attribution methods, strongest first (default: DEFAULT_METHOD_PRIORITY)
+  maxTouchpoints?: number; // Keep the newest touchpoints (default: 20)
+  maxAge?: number; // Forget touchpoints older than this (default: 90 days)
+  conversionEvents?: string[]; // Events sent with the chain and campaign data (default: purchase and subscription payments)
+  captureParameters?: string[]; // Extra query keys captured with the UTM parameters
+}
+
+/**
+ * A click that led the user here
+ */
+export interface Touchpoint {
+  click_id: string; // Impression id for views
+  source: string | null; // Affiliate code or campaign
+  method: string; // attribution_method, e.g. universal_deep_link
+  type?: 'click' | 'view'; // Default: click
+  timestamp: number;
+}
+
+/**
+ * Touchpoint with its share of the credit (0..1)
+ */
+export interface AttributionCredit {
+  touchpoint: Touchpoint;
+  weight: number;
+}
+
+/**
+ * Result of an attribution model
+ */
+export interface AttributionResult {
+  model: AttributionModel;
+  touchpoint: Touchpoint | null; // Touch with the most credit, the latest one on a tie
+  credits: AttributionCredit[]; // Touches within the lookback window
+  expired: boolean; // There are touches, but all are outside the window
+}
+
+export const DEFAULT_MAX_TOUCHPOINTS = 20;
+export const DEFAULT_TOUCHPOINT_MAX_AGE = 90 * 24 * 60 * 60 * 1000; // 90 days
+export const DEFAULT_CONVERSION_EVENTS = ['purchase', 'subscription_started', 'trial_converted', 'subscription_renewed'];
+export const DEFAULT_CLICK_WINDOW = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const DEFAULT_VIEW_WINDOW = 24 * 60 * 60 * 1000; // 1 day
+
+/**
+ * Attribution methods from the most to the least reliable. A touch only
+ * replaces a stronger one once that one is outside its window.
+ */
+export const DEFAULT_METHOD_PRIORITY = [
+  'app_store_deep_link',
+  'play_store_referrer',
+  'universal_deep_link',
+  'capacitor_deep_link',
+  'cordova_deep_link',
+  'cookie_attribution',
+  'view_through',
+];
+
+/**
+ * Ordered list of touchpoints, oldest first
+ */
+export class AttributionLedger {
+  constructor(
+    private readonly storage: ValueStorage,
+    private readonly options: AttributionOptions = {}
+  ) {}
+
+  /**
+   * Touchpoints within the age limit
+   */
+  touchpoints(now: number = Date.now()): Touchpoint[] {
+    const maxAge = this.options.maxAge ?? DEFAULT_TOUCHPOINT_MAX_AGE;
+    return this.load().filter(touch => now - touch.timestamp <= maxAge);
+  }
+
+  /**
+   * Whether a click is already recorded
+   */
+  has(clickId: string): boolean {
+    return this.load().some(touch => touch.click_id === clickId);
+  }
+
+  /**
+   * Append a touchpoint and trim the list by age and count.
+   * Returns false if the click was already recorded.
+   */
+  add(touch: Touchpoint, now: number = Date.now()): boolean {
+    if (this.has(touch.click_id)) return false;
+
+    const maxTouchpoints = this.options.maxTouchpoints ?? DEFAULT_MAX_TOUCHPOINTS;
+    const touchpoints = this.touchpoints(now).concat(touch).slice(-maxTouchpoints);
+
+    try {
+      this.storage.write(JSON.stringify(touchpoints));
+    } catch (e) {
+      // Attribution still works from the stored attribution data
+    }
+    return true;
+  }
+
+  private load(): Touchpoint[] {
+    try {
+      const stored = this.storage.read();
+      const touchpoints = stored ? JSON.parse(stored) : null;
+      return Array.isArray(touchpoints) ? touchpoints : [];
+    } catch (e) {
+      return [];
+    }
+  }
+}
+
+/**
+ * Lookback window for an event type, or the default one
+ */
+export function lookbackWindow(options: AttributionOptions = {}, eventType?: string): Required<AttributionWindow> {
+  return {
+    click: DEFAULT_CLICK_WINDOW,
+    view: DEFAULT_VIEW_WINDOW,
+    ...options.defaultLookback,
+    ...(eventType ? options.lookback?.[eventType] : undefined),
+  };
+}
+
+/**
+ * Whether a touch is still within the click or view window
+ */
+export function isWithinWindow(touch: Touchpoint, lookback: Required<AttributionWindow>, now: number = Date.now()): boolean {
+  const length = touch.type === 'view' ? lookback.view : lookback.click;
+  return now - touch.timestamp <= length;
+}
+
+/**
+ * Whether a new touch replaces the current one: it must be at least as
+ * strong, unless the current one has left its window. Unknown methods rank last.
+ */
+export function touchWins(
+  candidate: Touchpoint,
+  current: Touchpoint,
+  lookback: Required<AttributionWindow>,
+  priority: string[] = DEFAULT_METHOD_PRIORITY,
+  now: number = Date.now()
+): boolean {
+  if (!isWithinWindow(current, lookback, now)) return true;
+
+  const rank = (touch: Touchpoint) => {
+    const index = priority.indexOf(touch.method);
+    return index === -1 ? priority.length : index;
+  };
+  return rank(candidate) <= rank(current);
+}
+
+/**
+ * Split conversion credit between the touchpoints (oldest first) that are
+ * within the window. Last touch credits the latest touch that wins by method priority.
+ */
+export function attribute(
+  touchpoints: Touchpoint[],
+  model: AttributionModel,
+  lookback: Required<AttributionWindow> = { click: DEFAULT_CLICK_WINDOW, view: DEFAULT_VIEW_WINDOW },
+  priority: string[] = DEFAULT_METHOD_PRIORITY,
+  now: number = Date.now()
+): AttributionResult {
+  const eligible = touchpoints.filter(touch => isWithinWindow(touch, lookback, now));
+  const count = eligible.length;
+
+  let winner = -1;
+  eligible.forEach((touch, index) => {
+    if (winner === -1 || touchWins(touch, eligible[winner], lookback, priority, now)) winner = index;
+  });
+
+  const weights = eligible.map((_, index) => {
+    switch (model) {
+      case 'first_touch':
+        return index === 0 ? 1 : 0;
+      case 'linear':
+        return 1 / count;
+      case 'position_based':
+        if (count === 1) return 1;
+        if (count === 2) return 0.5;
+        return index === 0 || index === count - 1 ? 0.4 : 0.2 / (count - 2);
+      default:
+        return index === winner ? 1 : 0;
+    }
+  });
+
+  let chosen = -1;
+  weights.forEach((weight, index) => {
+    if (chosen === -1 || weight >= weights[chosen]) chosen = index;
+  });
+
+  return {
+    model,
+    touchpoint: chosen === -1 ? null : eligible[chosen],
+    credits: eligible.map((touchpoint, index) => ({ touchpoint, weight: weights[index] })),
+    expired: touchpoints.length > 0 && count === 0,
+  };
+}
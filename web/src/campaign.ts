@@ -0,0 +1,49 @@
+/**
+ * Campaign parameters of the landing URL and the Facebook cookies.
+ * `captured_at` is when the landing URL was seen.
+ */
+export interface CampaignData {
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+  gclid?: string;
+  fbclid?: string;
+  ttclid?: string;
+  msclkid?: string;
+  fbc?: string; // Facebook click id in cookie format, from _fbc or fbclid
+  fbp?: string; // Facebook browser id from _fbp
+  captured_at?: number;
+  [key: string]: string | number | undefined;
+}
+
+export const UTM_PARAMETERS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+
+/**
+ * Ad network click ids. Only sent with advertising consent.
+ */
+export const AD_CLICK_PARAMETERS = ['gclid', 'fbclid', 'ttclid', 'msclkid', 'fbc', 'fbp'];
+
+/**
+ * UTM parameters, click ids and custom keys found in a query string
+ */
+export function parseCampaignParameters(search: string, customKeys: string[] = []): Record<string, string> {
+  const query = new URLSearchParams(search);
+  const keys = UTM_PARAMETERS.concat(['gclid', 'fbclid', 'ttclid', 'msclkid'], customKeys);
+  const parameters: Record<string, string> = {};
+
+  keys.forEach(key => {
+    const value = query.get(key);
+    if (value) parameters[key] = value;
+  });
+  return parameters;
+}
+
+/**
+ * fbclid in the _fbc cookie format Facebook uses for matching:
+ * fb.<subdomain index>.<creation time>.<fbclid>
+ */
+export function formatFbc(fbclid: string, now: number = Date.now()): string {
+  return `fb.1.${now}.${fbclid}`;
+}
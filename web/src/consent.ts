@@ -0,0 +1,144 @@
+/**
+ * Consent categories
+ * - analytics: storing identifiers on the device and sending events
+ * - advertising: loading ad pixels and sending events to them
+ * - fingerprinting: deriving a device fingerprint
+ */
+export type ConsentCategory = 'analytics' | 'advertising' | 'fingerprinting';
+
+/**
+ * Current consent for each category
+ */
+export type ConsentState = Record<ConsentCategory, boolean>;
+
+/**
+ * Consent configuration. When `consent` is not configured at all the SDK
+ * behaves as before and everything is allowed; once it is configured,
+ * categories that are not granted explicitly are denied.
+ */
+export interface ConsentOptions {
+  analytics?: boolean;
+  advertising?: boolean;
+  fingerprinting?: boolean;
+  tcf?: boolean; // Read consent from an IAB TCF v2 CMP through window.__tcfapi
+}
+
+/**
+ * Consent decoded from a TCF v2 TC string
+ */
+export interface TCFConsent {
+  version: number;
+  cmpId: number;
+  purposeConsents: number[]; // Purpose ids (1-24) with consent
+  specialFeatureOptIns: number[]; // Special feature ids (1-12) opted in
+}
+
+/**
+ * TCF purposes required for each consent category
+ */
+const TCF_PURPOSES: Record<ConsentCategory, number[]> = {
+  analytics: [1, 7], // Store/access information, measure ad performance
+  advertising: [1, 2, 3, 4], // Store/access information, basic and personalised ads
+  fingerprinting: [1],
+};
+
+// Special feature 2: actively scan device characteristics for identification
+const TCF_FINGERPRINTING_FEATURE = 2;
+
+const BASE64_URL_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Initial consent from the SDK configuration
+ */
+export function resolveConsent(options?: ConsentOptions): ConsentState {
+  if (!options) {
+    return { analytics: true, advertising: true, fingerprinting: true };
+  }
+
+  return {
+    analytics: options.analytics === true,
+    advertising: options.advertising === true,
+    fingerprinting: options.fingerprinting === true,
+  };
+}
+
+/**
+ * Decode the core segment of a TCF v2 TC string
+ */
+export function parseTCString(tcString: string): TCFConsent | null {
+  try {
+    const coreSegment = tcString.split('.')[0];
+    let bits = '';
+    for (const char of coreSegment) {
+      const value = BASE64_URL_ALPHABET.indexOf(char);
+      if (value < 0) return null;
+      bits += ('00000' + value.toString(2)).slice(-6);
+    }
+
+    const readInt = (offset: number, length: number) => parseInt(bits.substr(offset, length), 2);
+    const readFlags = (offset: number, length: number) => {
+      const ids: number[] = [];
+      for (let i = 0; i < length; i++) {
+        if (bits[offset + i] === '1') ids.push(i + 1);
+      }
+      return ids;
+    };
+
+    // Core segment layout from the TCF v2 specification
+    if (bits.length < 176) return null;
+    const version = readInt(0, 6);
+    if (version !== 2) return null;
+
+    return {
+      version,
+      cmpId: readInt(78, 12),
+      specialFeatureOptIns: readFlags(140, 12),
+      purposeConsents: readFlags(152, 24),
+    };
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Map the data passed to a __tcfapi listener to SDK consent categories.
+ * Returns null while the CMP has not reached a final decision.
+ */
+export function consentFromTCData(tcData: any): ConsentState | null {
+  if (!tcData) return null;
+  if (tcData.eventStatus && tcData.eventStatus !== 'tcloaded' && tcData.eventStatus !== 'useractioncomplete') {
+    return null;
+  }
+
+  if (tcData.gdprApplies === false) {
+    return { analytics: true, advertising: true, fingerprinting: true };
+  }
+
+  let purposeConsents: number[];
+  let specialFeatureOptIns: number[];
+
+  if (tcData.purpose?.consents) {
+    purposeConsents = Object.keys(tcData.purpose.consents)
+      .filter(id => tcData.purpose.consents[id])
+      .map(Number);
+    specialFeatureOptIns = Object.keys(tcData.specialFeatureOptins || {})
+      .filter(id => tcData.specialFeatureOptins[id])
+      .map(Number);
+  } else if (typeof tcData.tcString === 'string') {
+    const parsed = parseTCString(tcData.tcString);
+    if (!parsed) return null;
+    purposeConsents = parsed.purposeConsents;
+    specialFeatureOptIns = parsed.specialFeatureOptIns;
+  } else {
+    return null;
+  }
+
+  const hasPurposes = (category: ConsentCategory) =>
+    TCF_PURPOSES[category].every(purpose => purposeConsents.includes(purpose));
+
+  return {
+    analytics: hasPurposes('analytics'),
+    advertising: hasPurposes('advertising'),
+    fingerprinting: hasPurposes('fingerprinting') && specialFeatureOptIns.includes(TCF_FINGERPRINTING_FEATURE),
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Where a deep link came from
+ * - url: the page URL on load
+ * - capacitor_launch: URL the Capacitor app was started with
+ * - capacitor_open: URL opened while the Capacitor app was running
+ * - cordova: URL passed to Cordova's handleOpenURL
+ */
+export type DeepLinkSource = 'url' | 'capacitor_launch' | 'capacitor_open' | 'cordova';
+
+/**
+ * Parsed deep link passed to `onDeepLink` callbacks
+ */
+export interface DeepLink {
+  url: string;
+  path: string; // For custom schemes the host is part of the path: myapp://product/1 -> /product/1
+  params: Record<string, string>;
+  clickId: string | null;
+  affiliateCode: string | null;
+  source: DeepLinkSource;
+}
+
+export type DeepLinkCallback = (link: DeepLink) => void;
+
+/**
+ * Parse a deep link, or return null if it is not a valid URL
+ */
+export function parseDeepLink(url: string, source: DeepLinkSource): DeepLink | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (e) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  parsed.searchParams.forEach((value, key) => {
+    params[key] = value;
+  });
+
+  const isWeb = parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  const path = isWeb || !parsed.host ? parsed.pathname : `/${parsed.host}${parsed.pathname}`;
+
+  return {
+    url,
+    path: path.replace(/\/+$/, '') || '/',
+    params,
+    clickId: params.click_id || params.pt || params.clickId || null,
+    affiliateCode: params.affiliate_code || params.ct || null,
+    source,
+  };
+}
@@ -0,0 +1,331 @@
+import { EventParameters } from './payload';
+
+/**
+ * Event handed to a destination
+ */
+export interface DestinationEvent {
+  name: string; // SDK event name, e.g. purchase
+  parameters: EventParameters;
+  eventId: string; // Pass on so the vendor can deduplicate server-side events
+}
+
+/**
+ * Per-destination mapping, delivered in `PixelSettings.mappings`.
+ * Event and parameter maps are merged over the destination's defaults.
+ */
+export interface DestinationMapping {
+  event_map?: Record<string, string>; // SDK event -> vendor event
+  param_map?: Record<string, string | null>; // SDK parameter -> vendor parameter, null removes a default
+  default_event?: string | null; // Vendor event for unmapped events, null skips them
+  allow_events?: string[]; // Only send these SDK events
+  deny_events?: string[]; // Never send these SDK events
+}
+
+/**
+ * Event after applying a mapping
+ */
+export interface MappedEvent {
+  name: string;
+  parameters: Record<string, any>;
+}
+
+/**
+ * Ad platform destination. `init` receives the value of the PixelSettings
+ * field the destination is registered under (usually the pixel id) and the
+ * mapping configured for it on the server.
+ */
+export interface Destination {
+  readonly name: string;
+  init(id: string, mapping?: DestinationMapping): void;
+  track(event: DestinationEvent): void;
+  identify(userId: string, traits: Record<string, string | number | boolean>): void;
+}
+
+/**
+ * Destinations keyed by the PixelSettings field that enables them
+ */
+export class DestinationRegistry {
+  private destinations = new Map<string, Destination>();
+
+  register(settingsKey: string, destination: Destination): void {
+    this.destinations.set(settingsKey, destination);
+  }
+
+  unregister(settingsKey: string): void {
+    this.destinations.delete(settingsKey);
+  }
+
+  get(settingsKey: string): Destination | undefined {
+    return this.destinations.get(settingsKey);
+  }
+
+  entries(): Array<[string, Destination]> {
+    return Array.from(this.destinations.entries());
+  }
+}
+
+/**
+ * Whether the allow/deny lists of a mapping let an event through
+ */
+export function isEventAllowed(eventName: string, mapping?: DestinationMapping): boolean {
+  if (!mapping) return true;
+  if (mapping.allow_events && mapping.allow_events.indexOf(eventName) === -1) return false;
+  if (mapping.deny_events && mapping.deny_events.indexOf(eventName) !== -1) return false;
+  return true;
+}
+
+/**
+ * Rename an event and its parameters, or return null if it should be skipped.
+ * Parameters without a mapping are not forwarded.
+ */
+export function mapEvent(
+  event: DestinationEvent,
+  defaults: DestinationMapping,
+  overrides: DestinationMapping = {}
+): MappedEvent | null {
+  const eventMap: Record<string, string> = { ...defaults.event_map, ...overrides.event_map };
+  const defaultEvent = overrides.default_event !== undefined ? overrides.default_event : defaults.default_event;
+  const name = eventMap[event.name] || defaultEvent;
+  if (!name) return null;
+
+  const paramMap: Record<string, string | null> = { ...defaults.param_map, ...overrides.param_map };
+  const parameters: Record<string, any> = {};
+  Object.keys(paramMap).forEach(source => {
+    const target = paramMap[source];
+    const value = event.parameters[source];
+    if (target && value !== undefined && value !== null && value !== '') {
+      parameters[target] = value;
+    }
+  });
+
+  return { name, parameters };
+}
+
+// Default mappings, overridable from the pixel settings
+const FACEBOOK_MAPPING: DestinationMapping = {
+  event_map: {
+    'page_view': 'PageView',
+    'purchase': 'Purchase',
+    'add_to_cart': 'AddToCart',
+    'button_click': 'Contact',
+    'form_submit': 'Lead',
+    'click': 'Contact'
+  },
+  param_map: {
+    amount: 'value',
+    currency: 'currency',
+    product_id: 'content_ids',
+    transaction_id: 'order_id',
+  },
+  default_event: 'CustomEvent',
+};
+
+const TIKTOK_MAPPING: DestinationMapping = {
+  event_map: {
+    'page_view': 'ViewContent',
+    'purchase': 'CompletePayment',
+    'add_to_cart': 'AddToCart',
+    'button_click': 'Contact',
+    'form_submit': 'SubmitForm',
+    'click': 'ClickButton'
+  },
+  param_map: {
+    amount: 'value',
+    currency: 'currency',
+    product_id: 'content_id',
+  },
+  default_event: 'CustomEvent',
+};
+
+const GOOGLE_ADS_MAPPING: DestinationMapping = {
+  event_map: {
+    'page_view': 'page_view',
+    'purchase': 'purchase',
+    'add_to_cart': 'add_to_cart',
+    'button_click': 'generate_lead',
+    'form_submit': 'generate_lead',
+    'click': 'select_content'
+  },
+  param_map: {
+    amount: 'value',
+    currency: 'currency',
+    product_id: 'item_id',
+    transaction_id: 'transaction_id',
+  },
+  default_event: 'custom_event',
+};
+
+/**
+ * Append an inline script to the page
+ */
+function injectScript(code: string): void {
+  const script = document.createElement('script');
+  script.innerHTML = code;
+  document.head.appendChild(script);
+}
+
+/**
+ * Facebook Pixel
+ */
+export class FacebookDestination implements Destination {
+  readonly name = 'Facebook Pixel';
+  private pixelId: string | null = null;
+  private mapping: DestinationMapping = {};
+
+  init(pixelId: string, mapping: DestinationMapping = {}): void {
+    this.pixelId = pixelId;
+    this.mapping = mapping;
+
+    // Create Facebook Pixel script
+    injectScript(`
+      !function(f,b,e,v,n,t,s)
+      {if(f.fbq)return;n=f.fbq=function(){n.callMethod?
+      n.callMethod.apply(n,arguments):n.queue.push(arguments)};
+      if(!f._fbq)f._fbq=n;n.push=n;n.loaded=!0;n.version='2.0';
+      n.queue=[];t=b.createElement(e);t.async=!0;
+      t.src=v;s=b.getElementsByTagName(e)[0];
+      s.parentNode.insertBefore(t,s)}(window, document,'script',
+      'https://connect.facebook.net/en_US/fbevents.js');
+      fbq('init', '${pixelId}');
+      fbq('track', 'PageView');
+    `);
+
+    // Add noscript fallback
+    const noscript = document.createElement('noscript');
+    const img = document.createElement('img');
+    img.height = 1;
+    img.width = 1;
+    img.style.display = 'none';
+    img.src = `https://www.facebook.com/tr?id=${pixelId}&ev=PageView&noscript=1`;
+    noscript.appendChild(img);
+    document.head.appendChild(noscript);
+  }
+
+  track(event: DestinationEvent): void {
+    const fbq = (window as any).fbq;
+    if (!fbq) return;
+
+    const mapped = mapEvent(event, FACEBOOK_MAPPING, this.mapping);
+    if (!mapped) return;
+
+    // Facebook expects a list of content ids
+    if (mapped.parameters.content_ids !== undefined && !Array.isArray(mapped.parameters.content_ids)) {
+      mapped.parameters.content_ids = [mapped.parameters.content_ids];
+    }
+
+    // eventID lets Facebook match this event with the Conversions API one
+    fbq('track', mapped.name, mapped.parameters, { eventID: event.eventId });
+  }
+
+  identify(userId: string, traits: Record<string, string | number | boolean>): void {
+    const fbq = (window as any).fbq;
+    if (!fbq || !this.pixelId) return;
+
+    // Advanced matching is set by initializing the pixel again
+    fbq('init', this.pixelId, {
+      external_id: userId,
+      ...(traits.email ? { em: traits.email } : {}),
+      ...(traits.phone ? { ph: traits.phone } : {}),
+    });
+  }
+}
+
+/**
+ * TikTok Pixel
+ */
+export class TikTokDestination implements Destination {
+  readonly name = 'TikTok Pixel';
+  private mapping: DestinationMapping = {};
+
+  init(pixelId: string, mapping: DestinationMapping = {}): void {
+    this.mapping = mapping;
+    injectScript(`
+      !function (w, d, t) {
+        w.TiktokAnalyticsObject=t;var ttq=w[t]=w[t]||[];ttq.methods=["page","track","identify","instances","debug","on","off","once","ready","alias","group","enableCookie","disableCookie"],ttq.setAndDefer=function(t,e){t[e]=function(){t.push([e].concat(Array.prototype.slice.call(arguments,0)))}};for(var i=0;i<ttq.methods.length;i++)ttq.setAndDefer(ttq,ttq.methods[i]);ttq.instance=function(t){for(var e=ttq._i[t]||[],n=0;n<ttq.methods.length;n++)ttq.setAndDefer(e,ttq.methods[n]);return e},ttq.load=function(e,n){var i="https://analytics.tiktok.com/i18n/pixel/events.js";ttq._i=ttq._i||{},ttq._i[e]=[],ttq._i[e]._u=i,ttq._t=ttq._t||{},ttq._t[e]=+new Date,ttq._o=ttq._o||{},ttq._o[e]=n||{};var o=document.createElement("script");o.type="text/javascript",o.async=!0,o.src=i+"?sdkid="+e+"&lib="+t;var a=document.getElementsByTagName("script")[0];a.parentNode.insertBefore(o,a)};
+        ttq.load('${pixelId}');
+        ttq.page();
+      }(window, document, 'ttq');
+    `);
+  }
+
+  track(event: DestinationEvent): void {
+    const ttq = (window as any).ttq;
+    if (!ttq) return;
+
+    const mapped = mapEvent(event, TIKTOK_MAPPING, this.mapping);
+    if (!mapped) return;
+
+    // event_id lets TikTok match this event with the Events API one
+    ttq.track(mapped.name, mapped.parameters, { event_id: event.eventId });
+  }
+
+  identify(userId: string, traits: Record<string, string | number | boolean>): void {
+    const ttq = (window as any).ttq;
+    if (!ttq) return;
+
+    ttq.identify({
+      external_id: userId,
+      ...(traits.email ? { email: traits.email } : {}),
+      ...(traits.phone ? { phone_number: traits.phone } : {}),
+    });
+  }
+}
+
+/**
+ * Google Ads (gtag.js)
+ */
+export class GoogleAdsDestination implements Destination {
+  readonly name = 'Google Ads';
+  private mapping: DestinationMapping = {};
+
+  init(adsId: string, mapping: DestinationMapping = {}): void {
+    this.mapping = mapping;
+    // Load gtag script
+    const script = document.createElement('script');
+    script.async = true;
+    script.src = `https://www.googletagmanager.com/gtag/js?id=${adsId}`;
+    document.head.appendChild(script);
+
+    // Initialize gtag
+    injectScript(`
+      window.dataLayer = window.dataLayer || [];
+      function gtag(){dataLayer.push(arguments);}
+      gtag('js', new Date());
+      gtag('config', '${adsId}');
+    `);
+  }
+
+  track(event: DestinationEvent): void {
+    const gtag = (window as any).gtag;
+    if (!gtag) return;
+
+    const mapped = mapEvent(event, GOOGLE_ADS_MAPPING, this.mapping);
+    if (!mapped) return;
+
+    // Google needs a currency with every value
+    if (mapped.parameters.value !== undefined && !mapped.parameters.currency) {
+      mapped.parameters.currency = 'USD';
+    }
+    mapped.parameters.event_id = event.eventId;
+
+    gtag('event', mapped.name, mapped.parameters);
+  }
+
+  identify(userId: string): void {
+    const gtag = (window as any).gtag;
+    if (!gtag) return;
+
+    gtag('set', { user_id: userId });
+  }
+}
+
+/**
+ * Registry with the built-in destinations
+ */
+export function createDefaultDestinations(): DestinationRegistry {
+  const registry = new DestinationRegistry();
+  registry.register('facebook_pixel_id', new FacebookDestination());
+  registry.register('tiktok_pixel_id', new TikTokDestination());
+  registry.register('google_ads_id', new GoogleAdsDestination());
+  return registry;
+}
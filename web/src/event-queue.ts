@@ -0,0 +1,185 @@
+/**
+ * Event waiting in the offline queue
+ */
+export interface QueuedEvent {
+  [key: string]: any;
+  retry_count: number;
+  queued_at: number;
+}
+
+/**
+ * Offline queue options
+ */
+export interface OfflineQueueOptions {
+  enabled?: boolean;
+  maxSize?: number; // Maximum number of stored events, oldest are dropped first
+  maxAge?: number; // Maximum event age in milliseconds
+}
+
+const DB_NAME = 'affiliate_sdk';
+const DB_VERSION = 1;
+const STORE_NAME = 'event_queue';
+
+export const DEFAULT_QUEUE_MAX_SIZE = 100;
+export const DEFAULT_QUEUE_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Stores the event queue in IndexedDB so it survives page reloads.
+ * Falls back to localStorage when IndexedDB is not available.
+ */
+export class PersistentEventQueue {
+  private readonly maxSize: number;
+  private readonly maxAge: number;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly storagePrefix: string, options: OfflineQueueOptions = {}) {
+    this.maxSize = options.maxSize ?? DEFAULT_QUEUE_MAX_SIZE;
+    this.maxAge = options.maxAge ?? DEFAULT_QUEUE_MAX_AGE;
+  }
+
+  /**
+   * Load stored events, dropping the ones over the size and age limits
+   */
+  async load(): Promise<QueuedEvent[]> {
+    let events: QueuedEvent[] = [];
+    const db = await this.openDatabase();
+
+    if (db) {
+      events = (await this.readFromDatabase(db)) || [];
+
+      // Pick up events written to localStorage while IndexedDB was failing
+      const fallbackEvents = this.readFromLocalStorage();
+      if (fallbackEvents.length > 0) {
+        events = [...events, ...fallbackEvents];
+        this.removeFromLocalStorage();
+      }
+    } else {
+      events = this.readFromLocalStorage();
+    }
+
+    return this.prune(events);
+  }
+
+  /**
+   * Replace the stored queue. Writes are serialized so the last call wins.
+   */
+  save(events: QueuedEvent[]): Promise<void> {
+    const snapshot = this.prune(events);
+
+    this.writeChain = this.writeChain.then(async () => {
+      const db = await this.openDatabase();
+      const written = db ? await this.writeToDatabase(db, snapshot) : false;
+
+      if (!written) {
+        this.writeToLocalStorage(snapshot);
+      }
+    }).catch(() => {
+      // Ignore storage errors
+    });
+
+    return this.writeChain;
+  }
+
+  /**
+   * Drop expired events and keep only the newest `maxSize` ones
+   */
+  prune(events: QueuedEvent[]): QueuedEvent[] {
+    const now = Date.now();
+    const fresh = events.filter(event =>
+      event && typeof event.queued_at === 'number' && now - event.queued_at <= this.maxAge
+    );
+
+    return fresh.length > this.maxSize ? fresh.slice(fresh.length - this.maxSize) : fresh;
+  }
+
+  private get localStorageKey(): string {
+    return `${this.storagePrefix}_event_queue`;
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise<IDBDatabase | null>(resolve => {
+      try {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+        request.onblocked = () => resolve(null);
+      } catch (e) {
+        // IndexedDB can throw in private mode or sandboxed iframes
+        resolve(null);
+      }
+    });
+
+    return this.dbPromise;
+  }
+
+  private readFromDatabase(db: IDBDatabase): Promise<QueuedEvent[] | null> {
+    return new Promise(resolve => {
+      try {
+        const request = db.transaction(STORE_NAME, 'readonly')
+          .objectStore(STORE_NAME)
+          .get(this.storagePrefix);
+        request.onsuccess = () => resolve(Array.isArray(request.result) ? request.result : null);
+        request.onerror = () => resolve(null);
+      } catch (e) {
+        resolve(null);
+      }
+    });
+  }
+
+  private writeToDatabase(db: IDBDatabase, events: QueuedEvent[]): Promise<boolean> {
+    return new Promise(resolve => {
+      try {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        transaction.objectStore(STORE_NAME).put(events, this.storagePrefix);
+        transaction.oncomplete = () => resolve(true);
+        transaction.onerror = () => resolve(false);
+        transaction.onabort = () => resolve(false);
+      } catch (e) {
+        resolve(false);
+      }
+    });
+  }
+
+  private readFromLocalStorage(): QueuedEvent[] {
+    try {
+      const stored = localStorage.getItem(this.localStorageKey);
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  private writeToLocalStorage(events: QueuedEvent[]): void {
+    try {
+      if (events.length === 0) {
+        localStorage.removeItem(this.localStorageKey);
+      } else {
+        localStorage.setItem(this.localStorageKey, JSON.stringify(events));
+      }
+    } catch (e) {
+      // Ignore storage errors (quota exceeded, private mode)
+    }
+  }
+
+  private removeFromLocalStorage(): void {
+    try {
+      localStorage.removeItem(this.localStorageKey);
+    } catch (e) {
+      // Ignore storage errors
+    }
+  }
+}
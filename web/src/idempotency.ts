@@ -0,0 +1,116 @@
+import { EventParameters } from './payload';
+import { ValueStorage } from './storage';
+
+/**
+ * Purchase deduplication options
+ */
+export interface PurchaseDeduplicationOptions {
+  enabled?: boolean; // Default: true
+  mode?: 'drop' | 'mark'; // Drop duplicates or send them with is_duplicate (default: drop)
+  ttl?: number; // How long a purchase is remembered (default: 24 hours)
+  timeBucket?: number; // Window for purchases without transaction_id (default: 5 minutes)
+}
+
+/**
+ * Purchase already seen within the TTL
+ */
+export interface LedgerEntry {
+  at: number;
+  eventId: string;
+}
+
+export const DEFAULT_PURCHASE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+export const DEFAULT_PURCHASE_TIME_BUCKET = 5 * 60 * 1000; // 5 minutes
+const MAX_LEDGER_ENTRIES = 500;
+
+/**
+ * Idempotency keys for a purchase. With a transaction_id that is the only key.
+ * Otherwise the key is derived from product, amount and currency in the current
+ * time bucket; the previous bucket is checked too so a retry right after a
+ * bucket boundary still matches.
+ */
+export function purchaseIdempotencyKeys(
+  parameters: EventParameters,
+  timeBucket: number = DEFAULT_PURCHASE_TIME_BUCKET,
+  now: number = Date.now()
+): string[] {
+  const transactionId = parameters.transaction_id;
+  if (transactionId !== undefined && transactionId !== null && transactionId !== '') {
+    return [`tx:${transactionId}`];
+  }
+
+  const base = `${parameters.product_id ?? ''}|${parameters.amount ?? ''}|${parameters.currency ?? ''}`;
+  const bucket = Math.floor(now / timeBucket);
+  return [`derived:${base}|${bucket}`, `derived:${base}|${bucket - 1}`];
+}
+
+/**
+ * Persistent, time-limited record of purchases already sent.
+ * Re-read on every call because other tabs share it.
+ */
+export class IdempotencyLedger {
+  constructor(
+    private readonly storage: ValueStorage,
+    private readonly ttl: number = DEFAULT_PURCHASE_TTL
+  ) {}
+
+  /**
+   * First entry matching one of the keys, if it has not expired
+   */
+  find(keys: string[], now: number = Date.now()): LedgerEntry | null {
+    const entries = this.load();
+    for (const key of keys) {
+      const entry = entries[key];
+      if (entry && now - entry.at < this.ttl) return entry;
+    }
+    return null;
+  }
+
+  /**
+   * Remember a purchase under its first key, dropping expired entries
+   */
+  record(key: string, eventId: string, now: number = Date.now()): void {
+    const entries = this.load();
+    entries[key] = { at: now, eventId };
+
+    // Keep the newest entries that are still within the TTL
+    const kept = Object.keys(entries)
+      .filter(k => now - entries[k].at < this.ttl)
+      .sort((a, b) => entries[b].at - entries[a].at)
+      .slice(0, MAX_LEDGER_ENTRIES);
+
+    const pruned: Record<string, LedgerEntry> = {};
+    kept.forEach(k => { pruned[k] = entries[k]; });
+
+    try {
+      this.storage.write(JSON.stringify(pruned));
+    } catch (e) {
+      // Deduplication is best effort
+    }
+  }
+
+  /**
+   * Forget a purchase that was not sent, unless another event took the key since
+   */
+  remove(key: string, eventId: string): void {
+    const entries = this.load();
+    if (entries[key]?.eventId !== eventId) return;
+    delete entries[key];
+
+    try {
+      this.storage.write(JSON.stringify(entries));
+    } catch (e) {
+      // Deduplication is best effort
+    }
+  }
+
+  private load(): Record<string, LedgerEntry> {
+    try {
+      const stored = this.storage.read();
+      const entries = stored ? JSON.parse(stored) : null;
+      return entries && typeof entries === 'object' ? entries : {};
+    } catch (e) {
+      return {};
+    }
+  }
+}
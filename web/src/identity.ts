@@ -0,0 +1,60 @@
+/**
+ * Custom identity, e.g. from a fingerprinting service. Resolve with null to send none.
+ */
+export type IdentityProvider = () => Promise<string | null> | string | null;
+
+/**
+ * What is sent in the `fingerprint` field
+ * - fingerprint: SHA-256 of canvas and browser properties (default)
+ * - device_id: nothing, events are matched on device_id only
+ * - cookie: the affiliate_fingerprint cookie set by redirect.php, or a first-party cookie id
+ * - a custom provider
+ */
+export type IdentityStrategy = 'fingerprint' | 'device_id' | 'cookie' | IdentityProvider;
+
+/**
+ * Hex SHA-256 via SubtleCrypto, or null where it is unavailable (e.g. insecure origins)
+ */
+export async function sha256(value: string): Promise<string | null> {
+  const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+  if (!subtle || typeof TextEncoder === 'undefined') return null;
+
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map(byte => ('0' + byte.toString(16)).slice(-2)).join('');
+}
+
+/**
+ * Canvas rendering and browser properties the fingerprint is derived from
+ */
+export function collectFingerprintSource(): string {
+  const components: Array<string | number> = [
+    navigator.userAgent,
+    navigator.language,
+    screen.width + 'x' + screen.height,
+    screen.colorDepth,
+    new Date().getTimezoneOffset(),
+    navigator.platform,
+  ];
+
+  try {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+
+    if (ctx) {
+      ctx.textBaseline = 'top';
+      ctx.font = '14px Arial';
+      ctx.textBaseline = 'alphabetic';
+      ctx.fillStyle = '#f60';
+      ctx.fillRect(125, 1, 62, 20);
+      ctx.fillStyle = '#069';
+      ctx.fillText('Canvas fingerprint', 2, 15);
+      ctx.fillStyle = 'rgba(102, 204, 0, 0.7)';
+      ctx.fillText('Canvas fingerprint', 4, 17);
+      components.push(canvas.toDataURL());
+    }
+  } catch (e) {
+    // Browser properties alone
+  }
+
+  return components.join('|');
+}
@@ -1,3 +1,96 @@
+import { PersistentEventQueue, QueuedEvent, OfflineQueueOptions } from './event-queue';
+import {
+  RetryOptions,
+  EventDropInfo,
+  DeliveryResult,
+  classifyResponse,
+  computeBackoff,
+  DEFAULT_MAX_RETRIES,
+} from './retry';
+
+import { Transport, TransportRequest, TransportResponse, createDefaultTransport } from './transports';
+import { ConsentCategory, ConsentState, ConsentOptions, resolveConsent, consentFromTCData } from './consent';
+import { EventSchema, validateEventParameters } from './validation';
+import { AnalyticsAdapter, ConsoleAdapter } from './adapters';
+import { SessionManager, SessionOptions, SessionState, SessionEndReason } from './session';
+import { TabCoordinator } from './tabs';
+import {
+  SubscriptionDetails,
+  SubscriptionState,
+  SubscriptionTransition,
+  applySubscriptionTransition,
+  initialSubscriptionState,
+  isSubscriptionEntitled,
+} from './subscription';
+import { IdempotencyLedger, PurchaseDeduplicationOptions, purchaseIdempotencyKeys } from './idempotency';
+import { RevenueOptions, normalizePurchaseParameters } from './revenue';
+import {
+  AttributionLedger,
+  AttributionModel,
+  AttributionOptions,
+  AttributionResult,
+  Touchpoint,
+  DEFAULT_CONVERSION_EVENTS,
+  attribute,
+  lookbackWindow,
+  touchWins,
+} from './attribution';
+import { CampaignData, AD_CLICK_PARAMETERS, parseCampaignParameters, formatFbc } from './campaign';
+import { DeepLink, DeepLinkCallback, DeepLinkSource, parseDeepLink } from './deep-links';
+import { IdentityStrategy, collectFingerprintSource, sha256 } from './identity';
+import {
+  Destination,
+  DestinationMapping,
+  DestinationRegistry,
+  createDefaultDestinations,
+  isEventAllowed,
+} from './destinations';
+import {
+  EventParameters,
+  EventPayload,
+  buildEventPayload,
+  buildTrackerUrl,
+  serializeEvent,
+  generateEventId,
+} from './payload';
+
+export type { QueuedEvent, OfflineQueueOptions } from './event-queue';
+export type { RetryOptions, EventDropReason, EventDropInfo } from './retry';
+export type { Transport, TransportRequest, TransportResponse } from './transports';
+export { FetchTransport, XHRTransport, BeaconTransport, TransportChain, createDefaultTransport } from './transports';
+export type { ConsentCategory, ConsentState, ConsentOptions, TCFConsent } from './consent';
+export { parseTCString } from './consent';
+export type { EventSchema, EventFieldSchema, EventFieldType } from './validation';
+export type { AnalyticsAdapter, AdapterTrack, AdapterOptions, ConsolePattern, ConsoleAdapterOptions } from './adapters';
+export { DataLayerAdapter, GtagAdapter, SegmentAdapter, ConsoleAdapter } from './adapters';
+export type { SessionOptions, SessionState, SessionEndReason } from './session';
+export type { EventParameters, EventPayload } from './payload';
+export type { PurchaseDeduplicationOptions } from './idempotency';
+export type { RevenueOptions, RevenueError } from './revenue';
+export { currencyDecimals } from './revenue';
+export type {
+  AttributionModel,
+  AttributionOptions,
+  AttributionWindow,
+  AttributionResult,
+  AttributionCredit,
+  Touchpoint,
+} from './attribution';
+export { DEFAULT_METHOD_PRIORITY } from './attribution';
+export type { CampaignData } from './campaign';
+export type { DeepLink, DeepLinkCallback, DeepLinkSource } from './deep-links';
+export type { IdentityStrategy, IdentityProvider } from './identity';
+export type { SubscriptionStatus, SubscriptionTransition, SubscriptionDetails, SubscriptionState } from './subscription';
+export type { Destination, DestinationEvent, DestinationMapping, MappedEvent } from './destinations';
+export {
+  DestinationRegistry,
+  FacebookDestination,
+  TikTokDestination,
+  GoogleAdsDestination,
+  mapEvent,
+  isEventAllowed,
+} from './destinations';
+
 /**
  * Pixel settings interface
  */
@@ -6,12 +99,37 @@ export interface PixelSettings {
   tiktok_pixel_id?: string;
   google_ads_id?: string;
   enabled?: boolean;
+  mappings?: Record<string, DestinationMapping>; // Event/parameter mapping per destination, keyed by its id field
+  [settingsKey: string]: unknown; // Ids for registered destinations, e.g. snapchat_pixel_id
 }
 
+/**
+ * Event catalogue: event name to its parameters. Declare your own to get
+ * type-checked trackEvent() calls, e.g. `new AffiliateSDK<MyEvents>(config)`.
+ */
+export type EventMap = { [eventName: string]: EventParameters };
+
+/**
+ * Event names declared in an event map
+ */
+export type EventName<TEvents extends object> = Extract<keyof TEvents, string>;
+
+/**
+ * trackEvent() arguments for an event: parameters are optional only when
+ * the event has no required fields.
+ */
+export type EventArgs<TEvents extends object, K extends keyof TEvents> =
+  {} extends TEvents[K] ? [parameters?: TEvents[K]] : [parameters: TEvents[K]];
+
+/**
+ * Runtime schemas for declared events
+ */
+export type EventSchemas<TEvents extends object> = { [K in EventName<TEvents>]?: EventSchema };
+
 /**
  * AffiliateSDK Configuration interface
  */
-export interface AffiliateSDKConfig {
+export interface AffiliateSDKConfig<TEvents extends object = EventMap> {
   affiliateCode: string;
   appCode?: string; // Сделали необязательным
   baseUrl?: string;
@@ -19,13 +137,38 @@ export interface AffiliateSDKConfig {
   debug?: boolean;
   enablePixels?: boolean;
   disableExternalRequests?: boolean; // Disable all external API calls
+  transport?: Transport; // Defaults to sendBeacon on unload, then fetch, then XMLHttpRequest
   autoTrack?: {
-    pageViews?: boolean;
+    pageViews?: boolean; // SPA route changes (History API and hash routes)
     clicks?: boolean;
     forms?: boolean;
     scrolling?: boolean;
     timeOnPage?: boolean;
   };
+  offlineQueue?: OfflineQueueOptions; // Persist failed events across page reloads
+  retry?: RetryOptions;
+  batching?: BatchingOptions; // POST events in batches instead of one GET per event
+  session?: SessionOptions; // Inactivity timeout, maximum length and midnight split
+  crossTab?: boolean; // Share the session and event queue with other open tabs (default: true)
+  consent?: ConsentOptions; // Gate storage, fingerprinting and pixels on user consent
+  identity?: IdentityStrategy; // What is sent as fingerprint (default: fingerprint)
+  eventSchemas?: EventSchemas<TEvents>; // Runtime validation for declared events
+  strictEvents?: 'warn' | 'drop'; // What to do with events failing validation (default: warn)
+  analyticsAdapters?: AnalyticsAdapter[]; // Forward events from dataLayer, gtag, Segment or console
+  destinations?: Record<string, Destination>; // Extra ad destinations keyed by their PixelSettings field
+  purchaseDeduplication?: PurchaseDeduplicationOptions; // Skip purchases already sent with the same transaction_id
+  revenue?: RevenueOptions; // Purchase amount validation, minor units and USD conversion
+  attribution?: AttributionOptions; // Touchpoint history and the model that picks the credited click
+  onEventDropped?: (event: Record<string, any>, info: EventDropInfo) => void;
+}
+
+/**
+ * Batching options. Batches are POSTed as a JSON array of events.
+ */
+export interface BatchingOptions {
+  enabled?: boolean;
+  batchSize?: number; // Send as soon as this many events are pending
+  flushInterval?: number; // Milliseconds to wait before sending a partial batch
 }
 
 /**
@@ -40,12 +183,22 @@ export interface PurchaseData {
 }
 
 /**
- * Event parameters interface
+ * Where a middleware runs: before the tracker request or before the pixels
  */
-export interface EventParameters {
-  [key: string]: string | number | boolean | null | undefined;
+export interface MiddlewareContext {
+  stage: 'server' | 'pixels';
+  eventName: string;
 }
 
+/**
+ * Event middleware. Return a modified payload, `null` to drop the event,
+ * or nothing to keep it unchanged.
+ */
+export type EventMiddleware = (
+  payload: EventPayload,
+  context: MiddlewareContext
+) => EventPayload | null | void | Promise<EventPayload | null | void>;
+
 /**
  * User properties interface
  */
@@ -75,19 +228,50 @@ interface DeviceInfo {
 /**
  * Main AffiliateSDK class for web applications
  */
-export class AffiliateSDK {
-  private config: AffiliateSDKConfig;
+export class AffiliateSDK<TEvents extends object = EventMap> {
+  private config: AffiliateSDKConfig<TEvents>;
   private sessionId: string | null = null;
-  private sessionStartTime: number | null = null;
-  private lastEventTime: number | null = null;
+  private readonly sessions: SessionManager;
+  private readonly purchases: IdempotencyLedger;
+  private readonly touchpoints: AttributionLedger;
   private isInitialized = false;
+  private initializing: Promise<void> | null = null;
+  private isDestroyed = false;
+  private teardowns: Array<() => void> = [];
+  private timeTrackingTimer: ReturnType<typeof setInterval> | null = null;
   
   private deviceInfo: DeviceInfo | null = null;
-  private eventQueue: Array<Record<string, any>> = [];
+  private eventQueue: QueuedEvent[] = [];
+  private sendingEvents: QueuedEvent[] = []; // Taken from the queue but not sent yet, still persisted
+  private readonly queueStore: PersistentEventQueue | null = null;
+  private isProcessingQueue = false;
+  private queueRestored = false; // The persisted queue is read before it is overwritten
+  private isSendingToPixels = false; // Adapters ignore the SDK's own pixel calls, e.g. gtag('event')
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingBatch: Array<{ event: Record<string, any>; retryCount: number; queuedAt: number }> = [];
+  private batchTimer: ReturnType<typeof setTimeout> | null = null;
   private pixelSettings: PixelSettings | null = null;
+  private readonly transport: Transport;
+  private consent: ConsentState;
+  private deferredStorage = new Map<string, string>();
+  private pixelsInitialized = false;
+  private readonly destinations: DestinationRegistry;
+  private activeDestinations: Array<{ destination: Destination; mapping?: DestinationMapping }> = [];
+  private middlewares: EventMiddleware[] = [];
+  private userId: string | null = null;
+  private adapterRemovers: Array<() => void> = [];
+  private deepLinkCallbacks: DeepLinkCallback[] = [];
+  private lastDeepLink: DeepLink | null = null;
+  private identity: Promise<string | null> | null = null;
+  private legacyConsoleRemover: (() => void) | null = null;
+  private tcfListenerId: number | null = null;
+  private tabs: TabCoordinator | null = null;
+  private sessionEndTimer: ReturnType<typeof setTimeout> | null = null;
   
   private readonly platform = 'web';
-  private readonly sessionTimeout = 30 * 60 * 1000; // 30 minutes
+  private readonly defaultBatchSize = 10;
+  private readonly defaultFlushInterval = 5000; // 5 seconds
+  private readonly tabSwitchGrace = 1000; // Time for the tab we switched to to report itself
   private readonly storagePrefix: string;
   
   // Auto-tracking state
@@ -95,12 +279,14 @@ export class AffiliateSDK {
   private scrollThresholds = { '25': false, '50': false, '75': false, '100': false };
   private timeThresholds = { '30': false, '60': false, '120': false };
   private pageStartTime = 0;
+  private currentRoute: string | null = null;
+  private currentUrl = '';
   
   // Subscription tracking
   private lastPurchaseTime: number | null = null;
   private activeSubscription: any = null;
   
-  constructor(config: AffiliateSDKConfig) {
+  constructor(config: AffiliateSDKConfig<TEvents>) {
     // Use production URL for API calls
     const baseHost = 'https://affiliate.33rd.pro';
     
@@ -120,20 +306,59 @@ export class AffiliateSDK {
     };
     
     this.storagePrefix = `affiliate_sdk_${this.config.affiliateCode}`;
+    this.transport = this.config.transport || createDefaultTransport();
+    this.destinations = createDefaultDestinations();
+    Object.keys(this.config.destinations || {}).forEach(settingsKey => {
+      this.destinations.register(settingsKey, this.config.destinations![settingsKey]);
+    });
+    this.consent = resolveConsent(this.config.consent);
+    this.sessions = new SessionManager({
+      read: () => this.readStorage('session_state'),
+      write: value => this.writeStorage('session_state', value),
+    }, this.config.session);
+    this.purchases = new IdempotencyLedger({
+      read: () => this.readStorage('purchase_ids'),
+      write: value => this.writeStorage('purchase_ids', value),
+    }, this.config.purchaseDeduplication?.ttl);
+    this.touchpoints = new AttributionLedger({
+      read: () => this.readStorage('touchpoints'),
+      write: value => this.writeStorage('touchpoints', value),
+    }, this.config.attribution);
+    
+    if (this.config.offlineQueue?.enabled !== false) {
+      this.queueStore = new PersistentEventQueue(this.storagePrefix, this.config.offlineQueue);
+    }
     
     // Bind methods to preserve context
     this.handleBeforeUnload = this.handleBeforeUnload.bind(this);
     this.handleVisibilityChange = this.handleVisibilityChange.bind(this);
+    this.handleOnline = this.handleOnline.bind(this);
+    this.handlePageHide = this.handlePageHide.bind(this);
+    this.handlePageShow = this.handlePageShow.bind(this);
     
     // Setup global error handler for this SDK instance
     this.setupGlobalErrorHandler();
   }
 
   /**
-   * Initialize the SDK
+   * Initialize the SDK. Concurrent calls share one run.
    */
-  async initialize(): Promise<void> {
+  initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.runInitialize().finally(() => {
+        this.initializing = null;
+      });
+    }
+    return this.initializing;
+  }
+
+  private async runInitialize(): Promise<void> {
     try {
+      if (this.isDestroyed) {
+        this.logError('SDK instance was destroyed, create a new one');
+        return;
+      }
+
       if (this.isInitialized) {
         this.log('SDK already initialized');
         return;
@@ -145,21 +370,50 @@ export class AffiliateSDK {
         return;
       }
 
-      // Generate or restore session ID
-      this.sessionId = this.getOrCreateSessionId();
-      this.sessionStartTime = Date.now();
-      this.lastEventTime = Date.now();
+      // Continue the stored session or start a new one
+      this.refreshSession();
+      this.removeStorage('session'); // Plain session ids written by older versions
       this.pageStartTime = Date.now();
 
+      // Pick up consent from the CMP before touching storage
+      if (this.config.consent?.tcf) {
+        this.listenForTCFConsent();
+      }
+
+      // Share the session and the queue with other open tabs. The lease lives
+      // in localStorage, so without analytics consent this waits for setConsent().
+      if (this.config.crossTab !== false && this.hasConsent('analytics')) {
+        this.startTabCoordination();
+      }
+
+      // Restore events left over from previous page loads
+      await this.restoreEventQueue();
+
       // Collect device information
       this.collectDeviceInfo();
+
+      // Resolve the identity now so events sent on unload don't wait for it
+      this.getIdentity().catch(() => {});
+      
+      // Restore the identified user
+      try {
+        this.userId = this.userId || this.readStorage('user_id');
+      } catch (e) {
+        // Ignore storage errors
+      }
       
+      // Start the touchpoint history with attribution stored before it existed
+      const storedAttribution = this.getAttributionData();
+      if (storedAttribution?.click_id && this.touchpoints.touchpoints().length === 0) {
+        this.touchpoints.add(this.toTouchpoint(storedAttribution), storedAttribution.timestamp);
+      }
+
       // Check for Deep Link attribution parameters
       this.checkDeepLinkAttribution();
       
       // Восстанавливаем данные о последней покупке
       try {
-        const savedPurchase = localStorage.getItem(`${this.storagePrefix}_last_purchase`);
+        const savedPurchase = this.readStorage('last_purchase');
         if (savedPurchase) {
           const data = JSON.parse(savedPurchase);
           this.lastPurchaseTime = data.time;
@@ -174,19 +428,14 @@ export class AffiliateSDK {
       if (this.config.enablePixels) {
         try {
           await this.loadPixelSettings();
-          this.initializePixels();
+          if (this.hasConsent('advertising')) {
+            this.initializePixels();
+          }
         } catch (e) {
           this.log('Failed to load pixel settings, continuing without pixels');
         }
       }
 
-      // Process any queued events
-      try {
-        await this.processEventQueue();
-      } catch (e) {
-        this.log('Failed to process event queue');
-      }
-
       // Setup auto-tracking
       if (this.config.autoTrack) {
         this.setupAutoTracking();
@@ -195,12 +444,12 @@ export class AffiliateSDK {
       // Setup page lifecycle events
       this.setupPageLifecycle();
       
-      // Перехватываем все события аналитики
-      this.interceptAnalytics();
+      // Forward events from other analytics libraries
+      (this.config.analyticsAdapters || []).forEach(adapter => this.addAnalyticsAdapter(adapter));
 
       // Track page load
       try {
-        await this.trackEvent('page_load', {
+        await this.track('page_load', {
           session_id: this.sessionId,
           platform: this.platform,
           ...this.deviceInfo,
@@ -212,6 +461,13 @@ export class AffiliateSDK {
       this.isInitialized = true;
       this.log('SDK initialized successfully');
 
+      // Process any queued events, including the ones tracked during initialization
+      try {
+        await this.processEventQueue();
+      } catch (e) {
+        this.log('Failed to process event queue');
+      }
+
     } catch (error) {
       this.logError('Failed to initialize SDK:', error);
       // Don't throw error to avoid breaking the app
@@ -223,61 +479,224 @@ export class AffiliateSDK {
   /**
    * Track a custom event
    */
-  async trackEvent(eventName: string, parameters: EventParameters = {}): Promise<void> {
+  async trackEvent<K extends EventName<TEvents>>(eventName: K, ...args: EventArgs<TEvents, K>): Promise<void> {
+    const parameters = (args[0] || {}) as EventParameters;
+    await this.track(eventName, parameters);
+  }
+
+  /**
+   * Validate an event against its schema, check purchase revenue and skip
+   * repeated purchases, then record it
+   */
+  private async track(eventName: string, parameters: EventParameters = {}, session?: SessionState): Promise<void> {
+    const schema = (this.config.eventSchemas as Record<string, EventSchema> | undefined)?.[eventName];
+    if (schema) {
+      const errors = validateEventParameters(parameters, schema);
+      if (errors.length > 0) {
+        const drop = this.config.strictEvents === 'drop';
+        this.logError(`Event "${eventName}" failed validation${drop ? ', dropping it' : ''}:`, errors);
+        if (drop) return;
+      }
+    }
+
+    const eventId = generateEventId();
+    let ledgerKey: string | undefined;
+    if (eventName === 'purchase') {
+      const normalized = this.validatePurchase(parameters);
+      if (!normalized) return;
+
+      const checked = this.deduplicatePurchase(normalized);
+      if (!checked) return;
+      parameters = checked.parameters;
+      ledgerKey = checked.ledgerKey;
+    }
+
+    // Reserve the key before sending so a concurrent duplicate sees it,
+    // and release it if the purchase is not sent after all
+    if (ledgerKey) {
+      this.purchases.record(ledgerKey, eventId);
+    }
+
+    const accepted = await this.recordEvent(eventName, parameters, session, eventId);
+    if (!accepted && ledgerKey) {
+      this.purchases.remove(ledgerKey, eventId);
+    }
+  }
+
+  /**
+   * Normalize the purchase amount and currency. Returns null when an
+   * invalid purchase should be dropped, otherwise the flagged parameters.
+   */
+  private validatePurchase(parameters: EventParameters): EventParameters | null {
+    const options = this.config.revenue || {};
+    const revenue = normalizePurchaseParameters(parameters, options);
+    if (revenue.errors.length === 0) return revenue.parameters;
+
+    if (options.invalidPurchases === 'reject') {
+      this.logError('Invalid purchase, dropping it:', revenue.errors);
+      return null;
+    }
+
+    this.logError('Invalid purchase, sending it flagged:', revenue.errors);
+    return revenue.parameters;
+  }
+
+  /**
+   * Look the purchase up in the ledger. Returns null when it should be
+   * dropped, otherwise the parameters to send (marked if it is a duplicate)
+   * and, for a first sighting, the key to record it under.
+   */
+  private deduplicatePurchase(
+    parameters: EventParameters
+  ): { parameters: EventParameters; ledgerKey?: string } | null {
+    const options = this.config.purchaseDeduplication || {};
+    if (options.enabled === false) return { parameters };
+
+    const keys = purchaseIdempotencyKeys(parameters, options.timeBucket);
+    const original = this.purchases.find(keys);
+    if (!original) {
+      return { parameters, ledgerKey: keys[0] };
+    }
+
+    if (options.mode === 'mark') {
+      this.log('Purchase already sent, marking as duplicate:', keys[0]);
+      return { parameters: { ...parameters, is_duplicate: true, duplicate_of: original.eventId } };
+    }
+
+    this.log('Purchase already sent, dropping duplicate:', keys[0]);
+    return null;
+  }
+
+  /**
+   * Build the event payload and send it, or queue it until the SDK can send.
+   * `session` pins the event to a session other than the current one. The
+   * event id is fixed here so it survives queueing and retries. Resolves
+   * false when the event was ignored or dropped by a server middleware.
+   */
+  private async recordEvent(
+    eventName: string,
+    parameters: EventParameters = {},
+    session?: SessionState,
+    eventId: string = generateEventId()
+  ): Promise<boolean> {
+    if (this.isDestroyed) {
+      this.log('SDK instance was destroyed, ignoring event:', eventName);
+      return false;
+    }
+
+    let accepted = false;
     try {
       // Silently skip if SDK failed to initialize
       if (!this.isInitialized && !this.config.disableExternalRequests) {
         this.log('SDK not initialized, queueing event:', eventName);
         // Still queue the event for later
-        this.eventQueue.push({
+        this.enqueueEvent({
           event_type: eventName,
           parameters,
           queued_at: Date.now(),
-          retry_count: 0
+          retry_count: 0,
+          pending_track: true,
+          session,
+          event_id: eventId
         });
-        return;
+        return true;
       }
-      // Сохраняем все дополнительные данные в additional_data
-      const eventData: any = {
-        unique_code: this.config.affiliateCode,
-        event_type: eventName,
-        timestamp: Date.now(),
-        session_id: this.sessionId,
+
+      // Hold events until the user agrees to analytics
+      if (!this.hasConsent('analytics')) {
+        this.log('No analytics consent, holding event:', eventName);
+        this.enqueueEvent({
+          event_type: eventName,
+          parameters,
+          queued_at: Date.now(),
+          retry_count: 0,
+          pending_track: true,
+          session,
+          event_id: eventId
+        });
+        return true;
+      }
+
+      // Rotate the session first so the event lands in the right one
+      if (!session) {
+        this.refreshSession();
+      }
+      const eventSession = session || this.sessions.current();
+      if (eventName !== 'session_end' && (!session || session.id === this.sessionId)) {
+        this.sessions.touch();
+      }
+
+      const eventData = buildEventPayload(eventName, parameters, {
+        affiliateCode: this.config.affiliateCode,
+        appCode: this.config.appCode,
         platform: this.platform,
         url: window.location.href,
-        device_id: this.deviceInfo?.device_id, // Добавляем постоянный ID устройства
-        // Важные поля на верхнем уровне
-        user_id: parameters.user_id,
-        amount: parameters.amount,
-        currency: parameters.currency,
-        // Все остальные параметры в additional_data
-        additional_data: JSON.stringify(parameters),
-      };
-      
-      // Добавляем app_code только если он указан
-      if (this.config.appCode) {
-        eventData.app_code = this.config.appCode;
-      }
+        sessionId: eventSession?.id ?? this.sessionId,
+        sessionNumber: eventSession?.number,
+        eventSequence: this.sessions.nextSequence(),
+        deviceId: this.deviceInfo?.device_id,
+        userId: this.userId,
+        eventId,
+      });
 
-      await this.sendEvent(eventData);
+      // Pixels get their own copy so server middlewares don't leak into it
+      const pixelPayload: EventPayload = { ...eventData, additional_data: { ...parameters } };
+
+      const serverPayload = await this.runMiddlewares(eventData, { stage: 'server', eventName });
+      if (serverPayload) {
+        await this.sendEvent(serverPayload);
+      } else {
+        this.log('Event dropped by middleware:', eventName);
+      }
+      accepted = !!serverPayload;
       
-      // Send to pixels if enabled
-      if (this.config.enablePixels && this.pixelSettings) {
-        await this.sendToPixels(eventName, parameters);
+      // Send to pixels if enabled. Ad platforms optimize on value, so invalid revenue stays out.
+      if (this.config.enablePixels && this.pixelSettings && this.hasConsent('advertising') &&
+          !parameters.revenue_invalid) {
+        const payload = await this.runMiddlewares(pixelPayload, { stage: 'pixels', eventName });
+        if (payload) {
+          await this.sendToPixels(payload.event_type, payload.additional_data, payload.event_id);
+        }
       }
       
-      this.lastEventTime = Date.now();
-
     } catch (error) {
       this.logError('Failed to track event:', error);
     }
+    return accepted;
+  }
+
+  /**
+   * Add a middleware. Middlewares run in the order they were added,
+   * once before the event is sent and once before it goes to the pixels.
+   * Returns a function that removes the middleware.
+   */
+  use(middleware: EventMiddleware): () => void {
+    this.middlewares.push(middleware);
+    return () => {
+      this.middlewares = this.middlewares.filter(item => item !== middleware);
+    };
+  }
+
+  /**
+   * Call `callback` for every incoming deep link: the page URL, Capacitor
+   * launch and open URLs and Cordova's handleOpenURL. A link that arrived
+   * before subscribing is delivered right away. Returns a function that unsubscribes.
+   */
+  onDeepLink(callback: DeepLinkCallback): () => void {
+    this.deepLinkCallbacks.push(callback);
+    if (this.lastDeepLink) {
+      this.callDeepLinkCallback(callback, this.lastDeepLink);
+    }
+    return () => {
+      this.deepLinkCallbacks = this.deepLinkCallbacks.filter(item => item !== callback);
+    };
   }
 
   /**
    * Track page view
    */
   async trackPageView(path?: string, parameters: EventParameters = {}): Promise<void> {
-    await this.trackEvent('page_view', {
+    await this.track('page_view', {
       page_path: path || window.location.pathname,
       page_title: document.title,
       referrer: document.referrer,
@@ -289,7 +708,7 @@ export class AffiliateSDK {
    * Track purchase event
    */
   async trackPurchase(purchaseData: PurchaseData): Promise<void> {
-    await this.trackEvent('purchase', {
+    await this.track('purchase', {
       amount: purchaseData.amount,
       currency: purchaseData.currency || 'USD',
       product_id: purchaseData.productId,
@@ -307,7 +726,7 @@ export class AffiliateSDK {
     expiryDate?: string | null;
     userId?: string;
   }): Promise<void> {
-    await this.trackEvent('subscription_status', {
+    await this.track('subscription_status', {
       is_premium: status.isActive,
       subscription_type: status.subscriptionType,
       expiry_date: status.expiryDate,
@@ -316,11 +735,68 @@ export class AffiliateSDK {
     });
   }
 
+  /**
+   * Track the start of a free trial
+   */
+  async trackTrialStarted(details: SubscriptionDetails & { productId: string }): Promise<boolean> {
+    return this.trackSubscriptionTransition('trial_started', details);
+  }
+
+  /**
+   * Track the start of a paid subscription
+   */
+  async trackSubscriptionStarted(details: SubscriptionDetails & { productId: string }): Promise<boolean> {
+    return this.trackSubscriptionTransition('subscription_started', details);
+  }
+
+  /**
+   * Track a renewal, also after a billing issue was resolved
+   */
+  async trackRenewal(details: SubscriptionDetails = {}): Promise<boolean> {
+    return this.trackSubscriptionTransition('subscription_renewed', details);
+  }
+
+  /**
+   * Track a trial turning into a paid subscription
+   */
+  async trackTrialConverted(details: SubscriptionDetails = {}): Promise<boolean> {
+    return this.trackSubscriptionTransition('trial_converted', details);
+  }
+
+  /**
+   * Track a cancellation. Access continues until the end of the period.
+   */
+  async trackCancellation(details: SubscriptionDetails = {}): Promise<boolean> {
+    return this.trackSubscriptionTransition('subscription_cancelled', details);
+  }
+
+  /**
+   * Track the end of access
+   */
+  async trackExpiration(details: SubscriptionDetails = {}): Promise<boolean> {
+    return this.trackSubscriptionTransition('subscription_expired', details);
+  }
+
+  /**
+   * Track a failed renewal payment
+   */
+  async trackBillingIssue(details: SubscriptionDetails = {}): Promise<boolean> {
+    return this.trackSubscriptionTransition('billing_issue', details);
+  }
+
+  /**
+   * Current subscription state and whether the user has access
+   */
+  getSubscriptionState(): SubscriptionState & { isEntitled: boolean } {
+    const state = this.readSubscriptionState();
+    return { ...state, isEntitled: isSubscriptionEntitled(state) };
+  }
+
   /**
    * Track button click
    */
   async trackButtonClick(buttonId: string, parameters: EventParameters = {}): Promise<void> {
-    await this.trackEvent('button_click', {
+    await this.track('button_click', {
       button_id: buttonId,
       ...parameters,
     });
@@ -330,7 +806,7 @@ export class AffiliateSDK {
    * Track form submission
    */
   async trackFormSubmit(formName: string, parameters: EventParameters = {}): Promise<void> {
-    await this.trackEvent('form_submit', {
+    await this.track('form_submit', {
       form_name: formName,
       ...parameters,
     });
@@ -341,13 +817,10 @@ export class AffiliateSDK {
    */
   setUserProperties(properties: UserProperties): void {
     try {
-      localStorage.setItem(
-        `${this.storagePrefix}_user_props`,
-        JSON.stringify(properties)
-      );
+      this.writeStorage('user_props', JSON.stringify(properties));
       
       // Также отправляем как событие для отслеживания
-      this.trackEvent('user_properties_set', properties as any).catch(() => {
+      this.track('user_properties_set', properties as any).catch(() => {
         // Silently ignore errors
       });
     } catch (error) {
@@ -356,151 +829,177 @@ export class AffiliateSDK {
   }
 
   /**
-   * Универсальный метод для перехвата всех console.log с аналитикой
+   * Identify the current user. The user id is saved and attached to every
+   * following event; traits are merged into the user properties.
    */
-  interceptAnalytics(): void {
-    const originalLog = console.log;
-    const sdk = this;
-    
-    console.log = function(...args: any[]) {
-      // Вызываем оригинальный console.log
-      originalLog.apply(console, args);
-      
-      const firstArg = args[0];
-      if (typeof firstArg === 'string') {
-        // 1. Перехватываем Web Analytics события
-        if (firstArg.includes('[Web Analytics]')) {
-          const match = firstArg.match(/\[Web Analytics\]\s+(.+?):/);
-          if (match) {
-            const eventType = match[1];
-            const eventData = args[1] || {};
-            sdk.trackEvent(eventType, eventData).catch(() => {});
-          }
-        }
-        
-        // 2. Перехватываем проверки подписок
-        else if (firstArg.includes('Checking premium status') || 
-                 (firstArg.includes('SUBSCRIPTION CHECK') && !firstArg.includes('[Web Analytics]'))) {
-          const eventData = args[1] || {};
-          
-          // Универсальная проверка разных форматов полей
-          let isPremium = eventData.isActive || 
-                         eventData.isPremium || 
-                         eventData.is_premium || 
-                         false;
-          
-          let subscriptionType = eventData.subscriptionType || 
-                                eventData.subscription_type || 
-                                null;
-          
-          let expiryDate = eventData.expiryDate || 
-                          eventData.expiry_date || 
-                          null;
-          
-          // Если это проверка при старте и недавно была покупка - используем данные из покупки
-          const checkType = firstArg.includes('STARTED') ? 'started' : 
-                           firstArg.includes('COMPLETED') ? 'completed' : 'status';
-          
-          if (checkType === 'started' && sdk.activeSubscription && sdk.lastPurchaseTime) {
-            // Проверяем, не прошло ли слишком много времени с момента покупки (5 минут)
-            const timeSincePurchase = Date.now() - sdk.lastPurchaseTime;
-            if (timeSincePurchase < 5 * 60 * 1000) {
-              // Используем данные из последней покупки
-              isPremium = true;
-              subscriptionType = sdk.activeSubscription.product_id || subscriptionType;
-              expiryDate = sdk.activeSubscription.expires_date || expiryDate;
-              
-              // Добавляем флаг, что данные скорректированы
-              sdk.trackEvent('subscription_check', {
-                is_premium: isPremium,
-                subscription_type: subscriptionType,
-                expiry_date: expiryDate,
-                check_type: checkType,
-                corrected_from_purchase: true,
-                original_is_premium: eventData.is_premium || false
-              }).catch(() => {});
-              return;
-            }
-          }
-          
-          sdk.trackEvent('subscription_check', {
-            is_premium: isPremium,
-            subscription_type: subscriptionType,
-            expiry_date: expiryDate,
-            check_type: checkType
-          }).catch(() => {});
-        }
-        
-        // 3. Перехватываем загрузку продуктов для покупки
-        else if (firstArg.includes('Loaded products:')) {
-          const products = args[1] || [];
-          sdk.trackEvent('products_loaded', {
-            products_count: products.length,
-            products: products
-          }).catch(() => {});
-        }
-        
-        // 4. Перехватываем историю подписок
-        else if (firstArg.includes('subscription history:')) {
-          const history = args[1] || {};
-          sdk.trackEvent('subscription_history', history).catch(() => {});
-        }
-        
-        // 5. Перехватываем события покупки (универсально)
-        else if (firstArg.toLowerCase().includes('purchase') || 
-                 firstArg.toLowerCase().includes('payment') ||
-                 firstArg.toLowerCase().includes('subscription activated') ||
-                 firstArg.toLowerCase().includes('subscription purchased')) {
-          const purchaseData = args[1] || {};
-          
-          // Универсальная проверка разных форматов полей
-          const amount = purchaseData.amount || 
-                        purchaseData.price || 
-                        purchaseData.value || 
-                        0;
-          
-          const productId = purchaseData.productId || 
-                           purchaseData.product_id || 
-                           purchaseData.sku ||
-                           purchaseData.subscription_type ||
-                           '';
-          
-          const transactionId = purchaseData.transactionId ||
-                               purchaseData.transaction_id ||
-                               purchaseData.orderId ||
-                               purchaseData.order_id ||
-                               '';
-          
-          // Сохраняем данные о покупке для корректировки будущих проверок
-          sdk.lastPurchaseTime = Date.now();
-          sdk.activeSubscription = {
-            product_id: productId,
-            expires_date: purchaseData.expires_date_ms || purchaseData.expiry_date || 
-                         (purchaseData.details && purchaseData.details.expires_date_ms) || null,
-            purchase_date: Date.now(),
-            ...purchaseData
-          };
-          
-          // Сохраняем в localStorage для персистентности
-          try {
-            localStorage.setItem(`${sdk.storagePrefix}_last_purchase`, JSON.stringify({
-              time: sdk.lastPurchaseTime,
-              subscription: sdk.activeSubscription
-            }));
-          } catch (e) {
-            // Ignore storage errors
-          }
-          
-          sdk.trackEvent('purchase', {
-            amount: amount,
-            currency: purchaseData.currency || 'USD',
-            product_id: productId,
-            transaction_id: transactionId,
-            ...purchaseData // сохраняем все остальные поля
-          }).catch(() => {});
+  identify(userId: string, traits: UserProperties = {}): void {
+    if (!userId) {
+      this.logError('identify() requires a user id');
+      return;
+    }
+
+    try {
+      this.userId = userId;
+      this.writeStorage('user_id', userId);
+      this.writeStorage('user_props', JSON.stringify({ ...this.getUserProperties(), ...traits }));
+    } catch (error) {
+      this.logError('Failed to store user identity:', error);
+    }
+
+    this.track('identify', {
+      ...traits,
+      user_id: userId,
+    }).catch(() => {});
+
+    if (this.pixelsInitialized && this.hasConsent('advertising')) {
+      this.activeDestinations.forEach(({ destination }) => {
+        try {
+          destination.identify(userId, traits);
+        } catch (error) {
+          this.logError(`Failed to identify user in ${destination.name}:`, error);
         }
+      });
+    }
+  }
+
+  /**
+   * Register an ad destination, enabled by the given PixelSettings field.
+   * Replaces the destination registered under the same field.
+   */
+  registerDestination(settingsKey: string, destination: Destination): void {
+    const previous = this.destinations.get(settingsKey);
+    if (previous) {
+      this.activeDestinations = this.activeDestinations.filter(item => item.destination !== previous);
+    }
+
+    this.destinations.register(settingsKey, destination);
+    if (this.pixelsInitialized) {
+      this.initializeDestination(settingsKey, destination);
+    }
+  }
+
+  /**
+   * Link an earlier anonymous id (the device_id by default) to the identified
+   * user, so the backend can merge both histories.
+   */
+  alias(previousId?: string): void {
+    if (!this.userId) {
+      this.logError('alias() requires identify() to be called first');
+      return;
+    }
+
+    let anonymousId = previousId;
+    if (!anonymousId) {
+      try {
+        anonymousId = this.deviceInfo?.device_id || this.readStorage('device_id') || undefined;
+      } catch (e) {
+        // Ignore storage errors
+      }
+    }
+    if (!anonymousId) {
+      this.logError('alias() could not find an anonymous id to link');
+      return;
+    }
+
+    this.track('alias', {
+      previous_id: anonymousId,
+      user_id: this.userId,
+    }).catch(() => {});
+  }
+
+  /**
+   * Forget the identified user, e.g. on logout. The device_id is kept.
+   */
+  reset(): void {
+    this.userId = null;
+
+    try {
+      this.removeStorage('user_id');
+      this.removeStorage('user_props');
+      this.removeStorage('subscription_state');
+    } catch (error) {
+      this.logError('Failed to clear user identity:', error);
+    }
+  }
+
+  /**
+   * Get the identified user id
+   */
+  getUserId(): string | null {
+    return this.userId;
+  }
+
+  /**
+   * Install an analytics adapter. Returns a function that removes it.
+   */
+  addAnalyticsAdapter(adapter: AnalyticsAdapter): () => void {
+    let restore: () => void;
+    try {
+      restore = adapter.install((eventName, parameters) => {
+        if (this.isSendingToPixels) return;
+        this.track(eventName, parameters as EventParameters).catch(() => {});
+      });
+      this.log('Analytics adapter installed:', adapter.name);
+    } catch (error) {
+      this.logError(`Failed to install analytics adapter ${adapter.name}:`, error);
+      return () => {};
+    }
+
+    const remove = () => {
+      this.adapterRemovers = this.adapterRemovers.filter(item => item !== remove);
+      try {
+        restore();
+      } catch (error) {
+        this.logError(`Failed to remove analytics adapter ${adapter.name}:`, error);
       }
     };
+    this.adapterRemovers.push(remove);
+    return remove;
+  }
+
+  /**
+   * Remove all installed analytics adapters and restore what they patched
+   */
+  removeAnalyticsAdapters(): void {
+    [...this.adapterRemovers].reverse().forEach(remove => remove());
+    this.legacyConsoleRemover = null;
+  }
+
+  /**
+   * Универсальный метод для перехвата всех console.log с аналитикой
+   * @deprecated Installs a console adapter with the legacy log patterns.
+   * Prefer `analyticsAdapters` with explicit patterns.
+   */
+  interceptAnalytics(): void {
+    if (this.legacyConsoleRemover) return;
+
+    this.legacyConsoleRemover = this.addAnalyticsAdapter(new ConsoleAdapter({
+      patterns: [
+        // 1. Web Analytics события
+        { match: /\[Web Analytics\]\s+(.+?):/, event: (message, match) => match ? match[1] : null },
+        { match: '[Web Analytics]', event: () => null },
+        // 2. Проверки подписок
+        {
+          match: /Checking premium status|SUBSCRIPTION CHECK/,
+          event: 'subscription_check',
+          transform: (data, message) => this.legacySubscriptionCheck(data, message),
+        },
+        // 3. Загрузка продуктов для покупки
+        {
+          match: 'Loaded products:',
+          event: 'products_loaded',
+          transform: products => ({ products_count: products.length || 0, products }),
+        },
+        // 4. История подписок
+        { match: 'subscription history:', event: 'subscription_history' },
+        // 5. События покупки
+        {
+          match: /purchase|payment|subscription activated/i,
+          event: 'purchase',
+          transform: data => this.legacyPurchaseLog(data),
+        },
+      ],
+    }));
   }
 
   /**
@@ -508,7 +1007,7 @@ export class AffiliateSDK {
    */
   getUserProperties(): UserProperties {
     try {
-      const stored = localStorage.getItem(`${this.storagePrefix}_user_props`);
+      const stored = this.readStorage('user_props');
       return stored ? JSON.parse(stored) : {};
     } catch (error) {
       this.logError('Failed to get user properties:', error);
@@ -517,30 +1016,296 @@ export class AffiliateSDK {
   }
 
   /**
-   * Track session end
+   * Move the subscription state machine and track the transition.
+   * Impossible transitions are not tracked and resolve to false.
    */
-  async trackSessionEnd(): Promise<void> {
-    if (!this.sessionStartTime) return;
+  private async trackSubscriptionTransition(
+    transition: SubscriptionTransition,
+    details: SubscriptionDetails
+  ): Promise<boolean> {
+    const previous = this.readSubscriptionState();
+    const next = applySubscriptionTransition(previous, transition, details);
+    if (!next) {
+      this.logError(`Ignoring ${transition}: not possible while subscription is ${previous.status}`);
+      return false;
+    }
 
-    const sessionDuration = Date.now() - this.sessionStartTime;
-    await this.trackEvent('session_end', {
-      duration: sessionDuration,
-      session_id: this.sessionId,
+    try {
+      this.writeStorage('subscription_state', JSON.stringify(next));
+    } catch (error) {
+      this.logError('Failed to save subscription state:', error);
+    }
+
+    // Only these transitions are payments
+    const isPayment = transition === 'subscription_started' || transition === 'subscription_renewed' ||
+      transition === 'trial_converted';
+
+    await this.track(transition, {
+      product_id: next.productId,
+      price: next.price,
+      currency: next.currency || 'USD',
+      amount: isPayment && next.price !== null ? next.price : undefined,
+      transaction_id: details.transactionId,
+      reason: details.reason,
+      previous_status: previous.status,
+      subscription_status: next.status,
+      period_start: next.periodStart !== null ? new Date(next.periodStart).toISOString() : null,
+      period_end: next.periodEnd !== null ? new Date(next.periodEnd).toISOString() : null,
+      renewal_count: next.renewals,
+      is_premium: isSubscriptionEntitled(next),
+      ...details.additionalData,
     });
+    return true;
   }
 
-  // Private methods
-
-  private collectDeviceInfo(): void {
-    const screen = window.screen;
+  private readSubscriptionState(): SubscriptionState {
+    try {
+      const stored = this.readStorage('subscription_state');
+      return stored ? { ...initialSubscriptionState(), ...JSON.parse(stored) } : initialSubscriptionState();
+    } catch (error) {
+      this.logError('Failed to read subscription state:', error);
+      return initialSubscriptionState();
+    }
+  }
+
+  /**
+   * Build subscription_check parameters from a logged status check.
+   * Right after a purchase the app may still report the old status, so
+   * the purchase data is used for the first check within 5 minutes.
+   */
+  private legacySubscriptionCheck(eventData: any, message: string): Record<string, any> {
+    // Универсальная проверка разных форматов полей
+    let isPremium = eventData.isActive || 
+                   eventData.isPremium || 
+                   eventData.is_premium || 
+                   false;
+    
+    let subscriptionType = eventData.subscriptionType || 
+                          eventData.subscription_type || 
+                          null;
+    
+    let expiryDate = eventData.expiryDate || 
+                    eventData.expiry_date || 
+                    null;
+    
+    const checkType = message.includes('STARTED') ? 'started' : 
+                     message.includes('COMPLETED') ? 'completed' : 'status';
+    
+    if (checkType === 'started' && this.activeSubscription && this.lastPurchaseTime) {
+      const timeSincePurchase = Date.now() - this.lastPurchaseTime;
+      if (timeSincePurchase < 5 * 60 * 1000) {
+        isPremium = true;
+        subscriptionType = this.activeSubscription.product_id || subscriptionType;
+        expiryDate = this.activeSubscription.expires_date || expiryDate;
+        
+        return {
+          is_premium: isPremium,
+          subscription_type: subscriptionType,
+          expiry_date: expiryDate,
+          check_type: checkType,
+          corrected_from_purchase: true,
+          original_is_premium: eventData.is_premium || false
+        };
+      }
+    }
+    
+    return {
+      is_premium: isPremium,
+      subscription_type: subscriptionType,
+      expiry_date: expiryDate,
+      check_type: checkType
+    };
+  }
+
+  /**
+   * Build purchase parameters from a logged purchase and remember it
+   * for the following subscription checks
+   */
+  private legacyPurchaseLog(purchaseData: any): Record<string, any> {
+    // Универсальная проверка разных форматов полей
+    const amount = purchaseData.amount || 
+                  purchaseData.price || 
+                  purchaseData.value || 
+                  0;
+    
+    const productId = purchaseData.productId || 
+                     purchaseData.product_id || 
+                     purchaseData.sku ||
+                     purchaseData.subscription_type ||
+                     '';
+    
+    const transactionId = purchaseData.transactionId ||
+                         purchaseData.transaction_id ||
+                         purchaseData.orderId ||
+                         purchaseData.order_id ||
+                         '';
+    
+    // Сохраняем данные о покупке для корректировки будущих проверок
+    this.lastPurchaseTime = Date.now();
+    this.activeSubscription = {
+      product_id: productId,
+      expires_date: purchaseData.expires_date_ms || purchaseData.expiry_date || 
+                   (purchaseData.details && purchaseData.details.expires_date_ms) || null,
+      purchase_date: Date.now(),
+      ...purchaseData
+    };
+    
+    // Сохраняем в localStorage для персистентности
+    try {
+      this.writeStorage('last_purchase', JSON.stringify({
+        time: this.lastPurchaseTime,
+        subscription: this.activeSubscription
+      }));
+    } catch (e) {
+      // Ignore storage errors
+    }
+    
+    return {
+      amount: amount,
+      currency: purchaseData.currency || 'USD',
+      product_id: productId,
+      transaction_id: transactionId,
+      ...purchaseData // сохраняем все остальные поля
+    };
+  }
+
+  /**
+   * Update consent at runtime. Granting analytics releases held events,
+   * granting advertising loads the pixels.
+   */
+  setConsent(consent: Partial<ConsentState>): void {
+    const previous = this.consent;
+    this.consent = { ...this.consent, ...consent };
+    this.log('Consent updated:', this.consent);
+
+    if (this.consent.analytics && !previous.analytics) {
+      this.flushDeferredStorage();
+
+      if (this.isInitialized) {
+        this.joinSharedQueue();
+      } else if (this.initializing) {
+        // initialize() already decided without consent
+        this.initializing.then(() => {
+          if (this.isInitialized) this.joinSharedQueue();
+        });
+      }
+    }
+
+    if (this.consent.advertising && !previous.advertising && this.isInitialized && this.config.enablePixels) {
+      this.initializePixels();
+    }
+  }
+
+  /**
+   * Once analytics is granted: join the other tabs and load the persisted queue
+   */
+  private joinSharedQueue(): void {
+    if (this.config.crossTab !== false) {
+      this.startTabCoordination();
+    }
+    this.restoreEventQueue()
+      .then(() => {
+        this.persistEventQueue();
+        return this.processEventQueue();
+      })
+      .catch(() => {});
+  }
+
+  /**
+   * Get current consent
+   */
+  getConsent(): ConsentState {
+    return { ...this.consent };
+  }
+
+  /**
+   * Tear the instance down: flush pending events, remove every listener and
+   * timer, restore patched globals. The instance can't be used afterwards.
+   */
+  async destroy(): Promise<void> {
+    if (this.isDestroyed) return;
+
+    // Let a pending initialize() finish so everything it set up is torn down below
+    if (this.initializing) {
+      await this.initializing;
+    }
+
+    // Send what we can; anything left stays in the persisted queue
+    try {
+      await this.processEventQueue();
+      await this.flushBatch();
+    } catch (error) {
+      this.logError('Failed to flush events on destroy:', error);
+    }
+
+    this.isDestroyed = true;
+
+    this.removeAnalyticsAdapters();
+
+    // Persist while this tab may still lead the queue
+    this.persistEventQueue();
+
+    [...this.teardowns].reverse().forEach(teardown => {
+      try {
+        teardown();
+      } catch (error) {
+        this.logError('Failed to remove listener:', error);
+      }
+    });
+    this.teardowns = [];
+
+    if (this.timeTrackingTimer) {
+      clearInterval(this.timeTrackingTimer);
+      this.timeTrackingTimer = null;
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+    if (this.sessionEndTimer) {
+      clearTimeout(this.sessionEndTimer);
+      this.sessionEndTimer = null;
+    }
+
+    this.middlewares = [];
+    this.deepLinkCallbacks = [];
+    this.isInitialized = false;
+    this.autoTrackingSetup = false;
+    this.log('SDK destroyed');
+  }
+
+  /**
+   * Track session end
+   */
+  async trackSessionEnd(): Promise<void> {
+    const session = this.sessions.current();
+    if (!session || session.endedAt) return;
+
+    // A session that already expired ended with its last event
+    const expiredReason = this.sessions.expiryReason();
+    const endTime = expiredReason ? session.lastActivityAt : Date.now();
+    const snapshot = { ...session };
+    this.sessions.markEnded(endTime);
+
+    await this.track('session_end', this.getSessionEndParameters(snapshot, expiredReason || 'hidden', endTime), snapshot);
+  }
+
+  // Private methods
+
+  private collectDeviceInfo(): void {
+    const screen = window.screen;
     const nav = navigator;
     
     // Генерируем или получаем постоянный device_id
-    let deviceId = localStorage.getItem(`${this.storagePrefix}_device_id`);
+    let deviceId = this.readStorage('device_id');
     if (!deviceId) {
       // Создаем уникальный идентификатор устройства
       deviceId = `dev_${Date.now()}_${this.generateRandomString(16)}`;
-      localStorage.setItem(`${this.storagePrefix}_device_id`, deviceId);
+      this.writeStorage('device_id', deviceId);
     }
     
     this.deviceInfo = {
@@ -560,95 +1325,417 @@ export class AffiliateSDK {
     };
   }
 
-  private getOrCreateSessionId(): string {
-    try {
-      let sessionId = localStorage.getItem(`${this.storagePrefix}_session`);
-      
-      if (!sessionId) {
-        sessionId = `sess_${Date.now()}_${this.generateRandomString(9)}`;
-        localStorage.setItem(`${this.storagePrefix}_session`, sessionId);
-      }
-      
-      return sessionId;
-    } catch (error) {
-      this.logError('Failed to get/create session ID:', error);
-      return `sess_${Date.now()}_${this.generateRandomString(9)}`;
+  /**
+   * Start a new session when there is none or the current one expired.
+   * The previous session gets its session_end unless it already has one.
+   */
+  private refreshSession(endReason?: SessionEndReason): void {
+    const previous = this.sessions.current();
+    const reason = previous ? endReason || this.sessions.expiryReason() : null;
+
+    if (previous && !reason) {
+      this.sessionId = previous.id;
+      return;
     }
+
+    if (previous && reason && !previous.endedAt) {
+      const snapshot = { ...previous };
+      this.track('session_end', this.getSessionEndParameters(snapshot, reason, snapshot.lastActivityAt), snapshot)
+        .catch(() => {});
+    }
+
+    const session = this.sessions.start(
+      `sess_${Date.now()}_${this.generateRandomString(9)}`,
+      this.getAttributionData()?.click_id || null
+    );
+    this.sessionId = session.id;
+    this.log('Session started:', session.id, reason ? `(previous ended: ${reason})` : '');
+
+    this.track('session_start', {
+      session_id: session.id,
+      session_number: session.number,
+      previous_session_id: previous?.id || null,
+      returning_user: session.number > 1,
+    }, session).catch(() => {});
+  }
+
+  private getSessionEndParameters(session: SessionState, reason: SessionEndReason, endTime: number): EventParameters {
+    return {
+      session_id: session.id,
+      session_number: session.number,
+      duration: Math.max(0, endTime - session.startedAt),
+      event_count: session.eventCount,
+      end_reason: reason,
+    };
   }
 
-  private async sendEvent(eventData: Record<string, any>): Promise<void> {
+  private async sendEvent(
+    eventData: Record<string, any>,
+    retryCount = 0,
+    queuedAt: number = Date.now()
+  ): Promise<void> {
+    if (this.config.disableExternalRequests) {
+      this.log('External requests are disabled, skipping event:', eventData.event_type);
+      return;
+    }
+
+    let result: DeliveryResult;
+
     try {
-      // Add fingerprint to all events
+      // Add the identity to all events, the field is left out when there is none
       if (!eventData.fingerprint) {
-        eventData.fingerprint = this.generateFingerprint();
-      }
-      
-      // Add attribution data if available
-      const attributionData = this.getAttributionData();
-      if (attributionData && attributionData.click_id) {
-        eventData.click_id = attributionData.click_id;
-        eventData.attribution_method = attributionData.attribution_method;
+        const fingerprint = await this.getIdentity();
+        if (fingerprint) {
+          eventData.fingerprint = fingerprint;
+        }
       }
       
-      const url = new URL(this.config.baseUrl!);
-      
-      // Add all event data as query parameters
-      Object.entries(eventData).forEach(([key, value]) => {
-        if (value !== null && value !== undefined) {
-          url.searchParams.append(key, String(value));
+      // Add the click chosen by the attribution model, and the whole chain for conversions
+      const conversionEvents = this.config.attribution?.conversionEvents || DEFAULT_CONVERSION_EVENTS;
+      const isConversion = conversionEvents.indexOf(eventData.event_type) !== -1;
+      const attribution = this.getAttribution({ eventType: eventData.event_type });
+      if (attribution.expired) {
+        // Report old clicks instead of crediting them
+        eventData.attribution_expired = true;
+      } else if (attribution.touchpoint) {
+        eventData.click_id = attribution.touchpoint.click_id;
+        eventData.attribution_method = attribution.touchpoint.method;
+        eventData.attribution_model = attribution.model;
+
+        if (isConversion) {
+          eventData.attribution_chain = JSON.stringify(attribution.credits.map(credit => ({
+            ...credit.touchpoint,
+            weight: Math.round(credit.weight * 10000) / 10000,
+          })));
         }
-      });
+      }
 
-      const response = await this.makeRequest(url.toString());
+      if (isConversion) {
+        this.addCampaignData(eventData);
+      }
       
-      if (response) {
-        this.log('Event sent successfully:', eventData.event_type);
-      } else {
-        // If request failed, queue for retry
-        this.log('Request failed - queuing for retry');
-        // Queue event for retry
-        this.eventQueue.push({
-          ...eventData,
-          retry_count: 0,
-          queued_at: Date.now(),
-        });
+      if (this.config.batching?.enabled) {
+        this.addToBatch(eventData, retryCount, queuedAt);
         return;
       }
-
+      
+      const url = buildTrackerUrl(this.config.baseUrl!, eventData);
+      result = classifyResponse(await this.makeRequest({ url, method: 'GET' }));
     } catch (error) {
       this.logError('Failed to send event:', error);
-      
-      // Queue event for retry
-      this.eventQueue.push({
-        ...eventData,
-        retry_count: 0,
-        queued_at: Date.now(),
-      });
+      result = { outcome: 'retry' };
     }
+
+    this.handleDeliveryResult(eventData, result, retryCount, queuedAt);
   }
 
-  private async processEventQueue(): Promise<void> {
-    if (this.eventQueue.length === 0) return;
+  /**
+   * Add an event to the pending batch, sending it once it is full
+   */
+  private addToBatch(eventData: Record<string, any>, retryCount: number, queuedAt: number): void {
+    this.pendingBatch.push({ event: eventData, retryCount, queuedAt });
+
+    const batchSize = this.config.batching?.batchSize ?? this.defaultBatchSize;
+    if (this.pendingBatch.length >= batchSize) {
+      this.flushBatch().catch(() => {});
+    } else if (!this.batchTimer) {
+      this.batchTimer = setTimeout(() => {
+        this.batchTimer = null;
+        this.flushBatch().catch(() => {});
+      }, this.config.batching?.flushInterval ?? this.defaultFlushInterval);
+    }
+  }
+
+  /**
+   * POST all pending events as a JSON array
+   */
+  private async flushBatch(): Promise<void> {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+    if (this.pendingBatch.length === 0) return;
+
+    const batch = this.pendingBatch;
+    this.pendingBatch = [];
+
+    let result: DeliveryResult;
+    try {
+      const body = JSON.stringify(batch.map(item => serializeEvent(item.event)));
+      result = classifyResponse(await this.makeRequest({ url: this.config.baseUrl!, method: 'POST', body }));
+    } catch (error) {
+      this.logError('Failed to send batch:', error);
+      result = { outcome: 'retry' };
+    }
 
-    const eventsToProcess = [...this.eventQueue];
-    this.eventQueue = [];
+    if (result.outcome === 'sent') {
+      this.log('Batch sent successfully:', batch.length, 'events');
+    }
+    batch.forEach(item => this.handleDeliveryResult(item.event, result, item.retryCount, item.queuedAt));
+  }
 
-    for (const event of eventsToProcess) {
+  /**
+   * Send the pending batch as a keepalive request while the page is going away.
+   * Events the transport refuses stay in the persisted queue.
+   */
+  private sendBatchOnUnload(extraEvents: EventPayload[] = []): void {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+
+    const batch = this.pendingBatch;
+    this.pendingBatch = [];
+    const events = [...batch.map(item => item.event), ...extraEvents];
+    if (events.length === 0) return;
+
+    this.makeRequest({
+      url: this.config.baseUrl!,
+      method: 'POST',
+      body: JSON.stringify(events.map(event => serializeEvent(event))),
+      keepalive: true,
+    }).then(response => {
+      if (response) return;
+
+      batch.forEach(item => this.enqueueEvent({
+        ...item.event,
+        retry_count: item.retryCount,
+        queued_at: item.queuedAt,
+      }));
+    });
+  }
+
+  /**
+   * Run middlewares in order. A failing middleware is skipped.
+   */
+  private async runMiddlewares(payload: EventPayload, context: MiddlewareContext): Promise<EventPayload | null> {
+    let current = payload;
+
+    for (const middleware of this.middlewares) {
       try {
-        if (event.retry_count < 3) {
-          const { retry_count, queued_at, ...eventToSend } = event;
-          await this.sendEvent(eventToSend);
-        }
+        const result = await middleware(current, context);
+        if (result === null) return null;
+        if (result) current = result;
       } catch (error) {
-        // Re-queue with incremented retry count
-        this.eventQueue.push({
-          ...event,
-          retry_count: event.retry_count + 1,
-        });
+        this.logError('Middleware failed:', error);
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Decide what happens to an event after a delivery attempt
+   */
+  private handleDeliveryResult(
+    eventData: Record<string, any>,
+    result: DeliveryResult,
+    retryCount: number,
+    queuedAt: number
+  ): void {
+    if (result.outcome === 'sent') {
+      this.log('Event sent successfully:', eventData.event_type);
+      return;
+    }
+
+    if (result.outcome === 'drop') {
+      this.logError('Event rejected by server:', eventData.event_type, result.status);
+      this.reportDroppedEvent(eventData, { reason: 'rejected', status: result.status, retryCount });
+      return;
+    }
+
+    const maxRetries = this.config.retry?.maxRetries ?? DEFAULT_MAX_RETRIES;
+    if (retryCount >= maxRetries) {
+      this.logError('Giving up on event after retries:', eventData.event_type, retryCount);
+      this.reportDroppedEvent(eventData, { reason: 'max_retries', status: result.status, retryCount });
+      return;
+    }
+
+    const delay = result.retryAfter ?? computeBackoff(retryCount, this.config.retry);
+    this.log('Request failed - retrying in', delay, 'ms:', eventData.event_type);
+
+    this.enqueueEvent({
+      ...eventData,
+      retry_count: retryCount,
+      queued_at: queuedAt,
+      next_attempt_at: Date.now() + delay,
+      retry_reason: result.status ? `http_${result.status}` : 'network',
+    });
+  }
+
+  private reportDroppedEvent(eventData: Record<string, any>, info: EventDropInfo): void {
+    if (!this.config.onEventDropped) return;
+
+    try {
+      const { retry_count, queued_at, next_attempt_at, retry_reason, pending_track, ...event } = eventData;
+      this.config.onEventDropped(event, info);
+    } catch (error) {
+      this.logError('onEventDropped callback failed:', error);
+    }
+  }
+
+  private async processEventQueue(): Promise<void> {
+    if (this.eventQueue.length === 0 || this.isProcessingQueue || !this.hasConsent('analytics')) return;
+
+    this.isProcessingQueue = true;
+    const now = Date.now();
+    // Other tabs only replay their own held events; the leader sends the rest
+    const isLeader = this.isQueueLeader();
+    const eventsToProcess = this.eventQueue.filter(event =>
+      (isLeader || event.pending_track) && (!event.next_attempt_at || event.next_attempt_at <= now)
+    );
+    this.eventQueue = this.eventQueue.filter(event => !eventsToProcess.includes(event));
+    this.sendingEvents = eventsToProcess.slice();
+
+    try {
+      for (const event of eventsToProcess) {
+        const { retry_count, queued_at, next_attempt_at, retry_reason, pending_track, ...eventToSend } = event;
+        if (pending_track) {
+          // Tracked before initialization - build the full payload now
+          await this.recordEvent(eventToSend.event_type, eventToSend.parameters, eventToSend.session, eventToSend.event_id);
+        } else {
+          await this.sendEvent(eventToSend, retry_count + 1, queued_at);
+        }
+
+        // Sent, dropped or queued again - only now it may leave the stored queue
+        this.sendingEvents = this.sendingEvents.filter(item => item !== event);
+        this.persistEventQueue();
+      }
+    } finally {
+      this.sendingEvents = [];
+      this.isProcessingQueue = false;
+      this.scheduleRetry();
+    }
+  }
+
+  /**
+   * Arm a timer for the earliest event waiting for its next attempt
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const nextAttempts = this.eventQueue
+      .map(event => event.next_attempt_at)
+      .filter((time): time is number => typeof time === 'number');
+    if (nextAttempts.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...nextAttempts) - Date.now());
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.processEventQueue().catch(() => {});
+    }, delay);
+  }
+
+  /**
+   * Add an event to the queue and persist it
+   */
+  private enqueueEvent(event: QueuedEvent): void {
+    // Retries belong to the leader tab
+    if (!event.pending_track && !this.isQueueLeader()) {
+      this.tabs!.forwardToLeader([event]);
+      return;
+    }
+
+    this.eventQueue.push(event);
+    this.applyQueueLimits();
+    this.persistEventQueue();
+
+    if (!this.isProcessingQueue) {
+      this.scheduleRetry();
+    }
+  }
+
+  /**
+   * Enforce the queue size and age limits, reporting what gets dropped
+   */
+  private applyQueueLimits(): void {
+    if (!this.queueStore) return;
+
+    const kept = this.queueStore.prune(this.eventQueue);
+    if (kept.length === this.eventQueue.length) return;
+
+    this.eventQueue
+      .filter(event => !kept.includes(event))
+      .forEach(event => this.reportDroppedEvent(event, { reason: 'queue_limit', retryCount: event.retry_count }));
+    this.eventQueue = kept;
+  }
+
+  private persistEventQueue(): void {
+    if (!this.queueStore || !this.queueRestored || !this.hasConsent('analytics') || !this.isQueueLeader()) return;
+
+    // Events being sent stay stored until they are done, unless they are queued again
+    const queuedIds = new Set(this.eventQueue.map(event => event.event_id).filter(Boolean));
+    const sending = this.sendingEvents.filter(event => !queuedIds.has(event.event_id));
+
+    this.queueStore.save([...sending, ...this.eventQueue]).catch(() => {
+      // Ignore storage errors
+    });
+  }
+
+  /**
+   * Load persisted events in front of the ones queued in memory
+   */
+  private async restoreEventQueue(): Promise<void> {
+    if (!this.queueStore || !this.hasConsent('analytics') || !this.isQueueLeader()) return;
+
+    try {
+      // Skip events this tab already holds, in case the queue was restored before
+      const held = [...this.sendingEvents, ...this.eventQueue];
+      const known = new Set(held.map(event => event.event_id).filter(Boolean));
+      const storedEvents = (await this.queueStore.load()).filter(event => !known.has(event.event_id));
+      if (storedEvents.length > 0) {
+        this.eventQueue = [...storedEvents, ...this.eventQueue];
+        this.applyQueueLimits();
+        this.log('Restored queued events:', storedEvents.length);
       }
+    } catch (error) {
+      this.logError('Failed to restore event queue:', error);
+    }
+    this.queueRestored = true;
+  }
+
+  /**
+   * Join the other tabs: one leader flushes the persisted queue, the
+   * others forward their retries to it
+   */
+  private startTabCoordination(): void {
+    if (this.tabs) return;
+
+    this.tabs = new TabCoordinator(this.storagePrefix, {
+      onLeaderChange: isLeader => this.handleLeaderChange(isLeader),
+      onQueuedEvents: events => {
+        events.forEach(event => this.enqueueEvent(event));
+        this.processEventQueue().catch(() => {});
+      },
+    });
+    this.tabs.start(!document.hidden);
+    this.teardowns.push(() => this.tabs?.stop());
+
+    // Leave and rejoin the other tabs (the page may be restored from the back/forward cache)
+    this.listen(window, 'pagehide', this.handlePageHide);
+    this.listen(window, 'pageshow', this.handlePageShow as EventListener);
+  }
+
+  private handleLeaderChange(isLeader: boolean): void {
+    if (isLeader) {
+      this.log('This tab now sends the shared event queue');
+      this.restoreEventQueue()
+        .then(() => this.processEventQueue())
+        .catch(() => {});
+    } else {
+      // The new leader loads these from the persisted queue
+      this.eventQueue = this.eventQueue.filter(event => event.pending_track);
+      this.scheduleRetry();
     }
   }
 
+  private isQueueLeader(): boolean {
+    return !this.tabs || this.tabs.isLeader();
+  }
+
   private setupAutoTracking(): void {
     if (this.autoTrackingSetup) return;
     
@@ -656,17 +1743,17 @@ export class AffiliateSDK {
 
     // Auto-track clicks
     if (autoTrack.clicks) {
-      document.addEventListener('click', this.handleClick.bind(this), true);
+      this.listen(document, 'click', this.handleClick.bind(this), true);
     }
 
     // Auto-track form submissions
     if (autoTrack.forms) {
-      document.addEventListener('submit', this.handleFormSubmit.bind(this), true);
+      this.listen(document, 'submit', this.handleFormSubmit.bind(this), true);
     }
 
     // Auto-track scrolling
     if (autoTrack.scrolling) {
-      window.addEventListener('scroll', this.handleScroll.bind(this), { passive: true });
+      this.listen(window, 'scroll', this.handleScroll.bind(this), { passive: true });
     }
 
     // Auto-track time on page
@@ -674,9 +1761,92 @@ export class AffiliateSDK {
       this.setupTimeTracking();
     }
 
+    // Auto-track SPA route changes
+    if (autoTrack.pageViews) {
+      this.setupRouteTracking();
+    }
+
     this.autoTrackingSetup = true;
   }
 
+  /**
+   * Watch History API and hash navigation for route changes
+   */
+  private setupRouteTracking(): void {
+    this.currentRoute = this.getRouteKey();
+    this.currentUrl = window.location.href;
+
+    // Delay so the router has updated the DOM and title
+    const onRouteChange = () => {
+      setTimeout(() => this.handleRouteChange(), 0);
+    };
+
+    const originalPushState = history.pushState;
+    const originalReplaceState = history.replaceState;
+    let active = true;
+
+    const pushState = function(this: History, ...args: Parameters<History['pushState']>) {
+      const result = originalPushState.apply(this, args);
+      if (active) onRouteChange();
+      return result;
+    };
+    const replaceState = function(this: History, ...args: Parameters<History['replaceState']>) {
+      const result = originalReplaceState.apply(this, args);
+      if (active) onRouteChange();
+      return result;
+    };
+
+    history.pushState = pushState;
+    history.replaceState = replaceState;
+    this.listen(window, 'popstate', onRouteChange);
+    this.listen(window, 'hashchange', onRouteChange);
+
+    this.teardowns.push(() => {
+      active = false;
+      if (history.pushState === pushState) history.pushState = originalPushState;
+      if (history.replaceState === replaceState) history.replaceState = originalReplaceState;
+    });
+  }
+
+  private handleRouteChange(): void {
+    const route = this.getRouteKey();
+    if (route === this.currentRoute) return;
+
+    const previousUrl = this.currentUrl;
+    this.currentRoute = route;
+    this.currentUrl = window.location.href;
+    this.resetPageState();
+
+    this.trackPageView(route, { referrer: previousUrl }).catch(() => {});
+  }
+
+  /**
+   * Path and query of the current route. The hash only counts for
+   * hash routers (#/page), not for in-page anchors.
+   */
+  private getRouteKey(): string {
+    const { pathname, search, hash } = window.location;
+    const isHashRoute = hash.indexOf('#/') === 0 || hash.indexOf('#!/') === 0;
+    return pathname + search + (isHashRoute ? hash : '');
+  }
+
+  /**
+   * Start scroll and time milestones over for a new page
+   */
+  private resetPageState(): void {
+    this.scrollThresholds = { '25': false, '50': false, '75': false, '100': false };
+    this.timeThresholds = { '30': false, '60': false, '120': false };
+    this.pageStartTime = Date.now();
+  }
+
+  /**
+   * Whether the SDK tracks SPA route changes itself. Decided from the config,
+   * so it is already true while initialize() is still running.
+   */
+  isTrackingRoutes(): boolean {
+    return !!this.config.autoTrack?.pageViews && !this.isDestroyed;
+  }
+
   private handleClick(event: Event): void {
     const target = event.target as HTMLElement;
     if (!target) return;
@@ -697,7 +1867,7 @@ export class AffiliateSDK {
           clickTarget.classList.contains('btn') ||
           clickTarget.classList.contains('button')) {
         
-        this.trackEvent('click', {
+        this.track('click', {
           element_type: tagName,
           element_id: clickTarget.id || '',
           element_class: clickTarget.className || '',
@@ -716,7 +1886,7 @@ export class AffiliateSDK {
     const form = event.target as HTMLFormElement;
     if (!form || form.tagName.toLowerCase() !== 'form') return;
 
-    this.trackEvent('form_submit', {
+    this.track('form_submit', {
       form_id: form.id || '',
       form_name: form.name || '',
       form_action: form.action || '',
@@ -735,7 +1905,7 @@ export class AffiliateSDK {
       const thresholdNum = parseInt(threshold);
       if (scrollPercent >= thresholdNum && !this.scrollThresholds[threshold as keyof typeof this.scrollThresholds]) {
         this.scrollThresholds[threshold as keyof typeof this.scrollThresholds] = true;
-        this.trackEvent('scroll_depth', {
+        this.track('scroll_depth', {
           scroll_percent: thresholdNum,
           page_height: documentHeight,
         }).catch(() => {});
@@ -751,7 +1921,7 @@ export class AffiliateSDK {
         const thresholdNum = parseInt(threshold);
         if (timeSpent >= thresholdNum && !this.timeThresholds[threshold as keyof typeof this.timeThresholds]) {
           this.timeThresholds[threshold as keyof typeof this.timeThresholds] = true;
-          this.trackEvent('time_on_page', {
+          this.track('time_on_page', {
             time_spent: thresholdNum,
             page_url: window.location.href,
           }).catch(() => {});
@@ -760,28 +1930,52 @@ export class AffiliateSDK {
     };
 
     // Check every 5 seconds
-    setInterval(checkTimeSpent, 5000);
+    this.timeTrackingTimer = setInterval(checkTimeSpent, 5000);
   }
 
   private setupPageLifecycle(): void {
     // Track page unload
-    window.addEventListener('beforeunload', this.handleBeforeUnload);
+    this.listen(window, 'beforeunload', this.handleBeforeUnload);
     
     // Track page visibility changes
-    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.listen(document, 'visibilitychange', this.handleVisibilityChange);
+    
+    // Flush queued events when the connection comes back
+    this.listen(window, 'online', this.handleOnline);
   }
 
   private handleBeforeUnload(): void {
     const timeSpent = Math.round((Date.now() - this.pageStartTime) / 1000);
     
-    if (timeSpent > 3) {
-      // Use sendBeacon for reliable event sending on page unload
+    if (timeSpent > 3 && this.hasConsent('analytics')) {
+      // Batches carry the same record shape as every other batched event
+      if (this.config.batching?.enabled) {
+        const session = this.sessions.current();
+        this.sendBatchOnUnload([buildEventPayload('page_unload', { time_spent: timeSpent }, {
+          affiliateCode: this.config.affiliateCode,
+          appCode: this.config.appCode,
+          platform: this.platform,
+          url: window.location.href,
+          sessionId: session?.id ?? this.sessionId,
+          sessionNumber: session?.number,
+          eventSequence: this.sessions.nextSequence(),
+          deviceId: this.deviceInfo?.device_id,
+          userId: this.userId,
+          eventId: generateEventId(),
+        })]);
+        return;
+      }
+
+      // Use a keepalive request (sendBeacon by default) for reliable event sending on page unload
       const eventData = {
         affiliate_code: this.config.affiliateCode,
         app_code: this.config.appCode,
         event: 'page_unload',
+        event_id: generateEventId(),
         timestamp: Date.now(),
         session_id: this.sessionId,
+        session_number: this.sessions.current()?.number,
+        event_sequence: this.sessions.nextSequence(),
         time_spent: timeSpent,
         url: window.location.href,
       };
@@ -791,35 +1985,103 @@ export class AffiliateSDK {
         url.searchParams.append(key, String(value));
       });
 
-      if (navigator.sendBeacon) {
-        navigator.sendBeacon(url.toString());
-      }
+      this.makeRequest({ url: url.toString(), method: 'GET', keepalive: true }).catch(() => {});
+    }
+    
+    if (this.config.batching?.enabled) {
+      this.sendBatchOnUnload();
     }
   }
 
   private handleVisibilityChange(): void {
+    this.tabs?.setVisible(!document.hidden);
+
     if (document.hidden) {
-      this.trackSessionEnd();
+      if (this.tabs?.hasOtherTabs()) {
+        // The session only ends once no tab is visible
+        if (this.config.batching?.enabled) {
+          this.sendBatchOnUnload();
+        }
+        this.scheduleSessionEnd();
+      } else {
+        this.endSessionOnHide();
+      }
     } else {
+      if (this.sessionEndTimer) {
+        clearTimeout(this.sessionEndTimer);
+        this.sessionEndTimer = null;
+      }
       this.updateSessionIfNeeded();
     }
+    
+    this.processEventQueue().catch(() => {});
+  }
+
+  private endSessionOnHide(): void {
+    this.trackSessionEnd().finally(() => {
+      // The page may never come back - don't wait for the flush timer
+      if (this.config.batching?.enabled) {
+        this.sendBatchOnUnload();
+      }
+    });
+  }
+
+  /**
+   * When switching tabs the new one becomes visible just after this one
+   * is hidden, so give it a moment to report in
+   */
+  private scheduleSessionEnd(): void {
+    if (this.sessionEndTimer) {
+      clearTimeout(this.sessionEndTimer);
+    }
+
+    this.sessionEndTimer = setTimeout(() => {
+      this.sessionEndTimer = null;
+      if (document.hidden && !this.tabs?.hasOtherVisibleTabs()) {
+        this.endSessionOnHide();
+      }
+    }, this.tabSwitchGrace);
+  }
+
+  private handlePageHide(): void {
+    if (!this.tabs) return;
+
+    if (this.sessionEndTimer) {
+      clearTimeout(this.sessionEndTimer);
+      this.sessionEndTimer = null;
+    }
+
+    // Closing the last visible tab ends the session
+    if (!this.tabs.hasOtherVisibleTabs()) {
+      this.trackSessionEnd().catch(() => {});
+    }
+    this.tabs.stop();
+  }
+
+  private handlePageShow(event: PageTransitionEvent): void {
+    if (event.persisted && this.tabs) {
+      this.tabs.start(!document.hidden);
+    }
+  }
+
+  private handleOnline(): void {
+    this.log('Connection restored, flushing event queue');
+    
+    // Events that failed on the network can go out right away; server backoffs still apply
+    this.eventQueue.forEach(event => {
+      if (event.retry_reason === 'network') {
+        delete event.next_attempt_at;
+      }
+    });
+    this.processEventQueue().catch(() => {});
   }
 
   private updateSessionIfNeeded(): void {
-    if (!this.lastEventTime) return;
-    
-    const timeSinceLastEvent = Date.now() - this.lastEventTime;
-    
-    if (timeSinceLastEvent > this.sessionTimeout) {
-      // Start new session
-      this.sessionId = this.getOrCreateSessionId();
-      this.sessionStartTime = Date.now();
+    const previousSessionId = this.sessionId;
+    this.refreshSession();
+
+    if (this.sessionId !== previousSessionId) {
       this.pageStartTime = Date.now();
-      
-      this.trackEvent('session_start', {
-        session_id: this.sessionId,
-        returning_user: true,
-      }).catch(() => {});
     }
   }
 
@@ -829,56 +2091,59 @@ export class AffiliateSDK {
   }
 
   /**
-   * Generate browser fingerprint (matching redirect.php logic)
+   * Value of the fingerprint field for the configured identity strategy.
+   * Computed once; consent is checked on every call.
+   */
+  private async getIdentity(): Promise<string | null> {
+    const strategy = this.config.identity || 'fingerprint';
+    if (strategy === 'device_id' || !this.isIdentityAllowed()) return null;
+
+    if (!this.identity) {
+      this.identity = this.resolveIdentity(strategy).catch(error => {
+        this.logError('Failed to resolve identity:', error);
+        return null;
+      });
+    }
+    return this.identity;
+  }
+
+  /**
+   * Whether the identity strategy and consent allow sending a fingerprint
+   */
+  private isIdentityAllowed(): boolean {
+    const strategy = this.config.identity || 'fingerprint';
+    if (strategy === 'device_id') return false;
+    return this.hasConsent(strategy === 'cookie' ? 'analytics' : 'fingerprinting');
+  }
+
+  private async resolveIdentity(strategy: Exclude<IdentityStrategy, 'device_id'>): Promise<string | null> {
+    if (typeof strategy === 'function') {
+      return (await strategy()) || null;
+    }
+    if (strategy === 'cookie') {
+      return this.getIdentityCookie();
+    }
+    return sha256(collectFingerprintSource());
+  }
+
+  /**
+   * Fingerprint set by redirect.php, or a random id in a first-party cookie
    */
-  private generateFingerprint(): string {
+  private getIdentityCookie(): string | null {
+    const fromRedirect = this.getCookie('affiliate_fingerprint');
+    if (fromRedirect) return fromRedirect;
+
+    const name = `${this.storagePrefix}_uid`;
+    const existing = this.getCookie(name);
+    if (existing) return existing;
+
     try {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (ctx) {
-        // Canvas fingerprinting
-        ctx.textBaseline = 'top';
-        ctx.font = '14px Arial';
-        ctx.textBaseline = 'alphabetic';
-        ctx.fillStyle = '#f60';
-        ctx.fillRect(125, 1, 62, 20);
-        ctx.fillStyle = '#069';
-        ctx.fillText('Canvas fingerprint', 2, 15);
-        ctx.fillStyle = 'rgba(102, 204, 0, 0.7)';
-        ctx.fillText('Canvas fingerprint', 4, 17);
-        
-        const canvasData = canvas.toDataURL();
-        
-        // Combine with other browser properties
-        const components = [
-          navigator.userAgent,
-          navigator.language,
-          screen.width + 'x' + screen.height,
-          screen.colorDepth,
-          new Date().getTimezoneOffset(),
-          navigator.platform,
-          canvasData
-        ];
-        
-        // Simple hash function
-        let hash = 0;
-        const str = components.join('|');
-        for (let i = 0; i < str.length; i++) {
-          const char = str.charCodeAt(i);
-          hash = ((hash << 5) - hash) + char;
-          hash = hash & hash; // Convert to 32bit integer
-        }
-        
-        return Math.abs(hash).toString(16);
-      }
-      
-      // Fallback if canvas not available
-      return this.generateRandomString(16);
-      
+      const id = `uid_${Date.now()}_${this.generateRandomString(16)}`;
+      document.cookie = `${name}=${id}; max-age=${365 * 24 * 60 * 60}; path=/; SameSite=Lax`;
+      return id;
     } catch (error) {
-      this.logError('Failed to generate fingerprint:', error);
-      return this.generateRandomString(16);
+      this.logError('Failed to set identity cookie:', error);
+      return null;
     }
   }
 
@@ -887,10 +2152,16 @@ export class AffiliateSDK {
    */
   private checkDeepLinkAttribution(): void {
     try {
-      // Check if running in Capacitor
+      // UTM parameters and ad network click ids
+      this.captureCampaignData();
+
+      // Check if running in Capacitor or Cordova
       if ((window as any).Capacitor) {
         this.checkCapacitorDeepLink();
       }
+      if ((window as any).cordova) {
+        this.listenForCordovaDeepLinks();
+      }
       
       // 1. Check URL parameters (App Store: pt, ct, mt)
       const urlParams = new URLSearchParams(window.location.search);
@@ -922,7 +2193,8 @@ export class AffiliateSDK {
       const clickIdFromCookie = this.getCookie('affiliate_click_id');
       const affiliateCodeFromCookie = this.getCookie('affiliate_code');
       const sessionIdFromCookie = this.getCookie('affiliate_session_id');
-      const fingerprintFromCookie = this.getCookie('affiliate_fingerprint');
+      // Only sent where the identity strategy would send a fingerprint
+      const fingerprint = this.isIdentityAllowed() ? { fingerprint: this.getCookie('affiliate_fingerprint') || '' } : {};
       
       // 5. Determine attribution source and click_id (приоритет по надежности)
       let clickId: string | null = null;
@@ -961,11 +2233,11 @@ export class AffiliateSDK {
           campaign_source: campaignToken || affiliateCode || '',
           timestamp: Date.now(),
           session_id: sessionIdFromCookie || '',
-          fingerprint: fingerprintFromCookie || ''
+          ...fingerprint
         });
         
         // Track attribution event with enhanced data
-        this.trackEvent('app_attribution', {
+        this.track('app_attribution', {
           click_id: clickId,
           attribution_method: attributionMethod,
           affiliate_code: affiliateCode || '',
@@ -975,13 +2247,21 @@ export class AffiliateSDK {
           has_deep_link: !!providerToken || !!playStoreClickId || !!universalClickId,
           has_cookie: !!clickIdFromCookie,
           session_id: sessionIdFromCookie || '',
-          fingerprint: fingerprintFromCookie || '',
+          ...fingerprint,
           // Дополнительные данные для различных типов атрибуции
           app_store_data: providerToken ? { pt: providerToken, ct: campaignToken, mt: mediaType } : null,
           play_store_data: playStoreClickId ? { click_id: playStoreClickId, affiliate_code: playStoreAffiliateCode } : null,
           universal_data: universalClickId ? { click_id: universalClickId, affiliate_code: universalAffiliateCode } : null
         }).catch(() => {});
       }
+
+      // Page URLs with a click are deep links too
+      const pageLink = clickId && attributionMethod !== 'cookie_attribution'
+        ? parseDeepLink(window.location.href, 'url')
+        : null;
+      if (pageLink) {
+        this.notifyDeepLink({ ...pageLink, clickId, affiliateCode: affiliateCode || pageLink.affiliateCode });
+      }
       
     } catch (error) {
       this.logError('Failed to check Deep Link attribution:', error);
@@ -992,6 +2272,8 @@ export class AffiliateSDK {
    * Get cookie value by name
    */
   private getCookie(name: string): string | null {
+    if (!this.hasConsent('analytics')) return null;
+    
     try {
       const value = `; ${document.cookie}`;
       const parts = value.split(`; ${name}=`);
@@ -1005,25 +2287,148 @@ export class AffiliateSDK {
   }
 
   /**
-   * Store attribution data in localStorage
+   * Store attribution data in localStorage and add it to the touchpoint history
    */
   private storeAttributionData(data: Record<string, any>): void {
     try {
-      localStorage.setItem(
-        `${this.storagePrefix}_attribution`,
-        JSON.stringify(data)
-      );
+      // The redirect cookie is found again on every page load
+      const touch = this.toTouchpoint(data);
+      if (data.click_id && !this.touchpoints.add(touch)) {
+        this.log('Click already attributed:', data.click_id);
+        return;
+      }
+
+      // Keep a stronger attribution that is still within its window
+      const stored = this.getAttributionData();
+      if (stored?.click_id && !touchWins(touch, this.toTouchpoint(stored),
+          lookbackWindow(this.config.attribution), this.config.attribution?.methodPriority)) {
+        this.log('Keeping stronger attribution:', stored.attribution_method, 'over', data.attribution_method);
+        return;
+      }
+
+      const campaign = this.getCampaignData();
+      this.writeStorage('attribution', JSON.stringify(campaign ? { ...data, campaign } : data));
+
+      // A new attribution source starts a new session, unless nothing happened in this one yet
+      const session = this.sessions.current();
+      if (session && data.click_id && session.attributionKey !== data.click_id) {
+        if (session.eventCount > 0) {
+          this.refreshSession('attribution_change');
+        } else {
+          this.sessions.setAttributionKey(data.click_id);
+        }
+      }
     } catch (error) {
       this.logError('Failed to store attribution data:', error);
     }
   }
 
+  /**
+   * Store the campaign parameters of the landing URL or a deep link. A URL with campaign
+   * parameters replaces the stored ones; the Facebook cookies are refreshed on every load.
+   */
+  private captureCampaignData(search: string = window.location.search): void {
+    try {
+      const parameters = parseCampaignParameters(search, this.config.attribution?.captureParameters);
+      let campaign: CampaignData = this.getCampaignData() || {};
+
+      if (Object.keys(parameters).length > 0) {
+        campaign = { ...parameters, captured_at: Date.now() };
+        if (parameters.fbclid) {
+          campaign.fbc = formatFbc(parameters.fbclid);
+        }
+        this.log('Campaign parameters detected:', parameters);
+      }
+
+      // Facebook's own cookie wins unless it belongs to an older click
+      const fbc = this.getCookie('_fbc');
+      if (fbc && (!campaign.fbclid || fbc.slice(-campaign.fbclid.length) === campaign.fbclid)) {
+        campaign.fbc = fbc;
+      }
+      const fbp = this.getCookie('_fbp');
+      if (fbp) {
+        campaign.fbp = fbp;
+      }
+
+      if (Object.keys(campaign).length > 0) {
+        this.writeStorage('campaign', JSON.stringify(campaign));
+      }
+    } catch (error) {
+      this.logError('Failed to capture campaign parameters:', error);
+    }
+  }
+
+  /**
+   * Add campaign parameters to a conversion. Click ids need advertising consent.
+   */
+  private addCampaignData(eventData: Record<string, any>): void {
+    const campaign = this.getCampaignData();
+    if (!campaign) return;
+
+    const lookback = lookbackWindow(this.config.attribution, eventData.event_type);
+    const expired = campaign.captured_at !== undefined && Date.now() - campaign.captured_at > lookback.click;
+    const advertising = this.hasConsent('advertising');
+
+    Object.keys(campaign).forEach(key => {
+      if (key === 'captured_at' || eventData[key] !== undefined) return;
+      if (AD_CLICK_PARAMETERS.indexOf(key) !== -1 && !advertising) return;
+      // fbp identifies the browser, not the landing
+      if (expired && key !== 'fbp') return;
+      eventData[key] = campaign[key];
+    });
+  }
+
+  /**
+   * Get stored campaign parameters
+   */
+  getCampaignData(): CampaignData | null {
+    try {
+      const stored = this.readStorage('campaign');
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      this.logError('Failed to get campaign data:', error);
+      return null;
+    }
+  }
+
+  private toTouchpoint(data: Record<string, any>): Touchpoint {
+    return {
+      click_id: String(data.click_id),
+      source: data.campaign_source || data.affiliate_code || null,
+      method: data.attribution_method,
+      timestamp: data.timestamp || Date.now(),
+    };
+  }
+
+  /**
+   * Touchpoints within the lookback window of an event type and the click
+   * credited by an attribution model (default: the configured model, or last touch)
+   */
+  getAttribution(options: { model?: AttributionModel; eventType?: string } = {}): AttributionResult {
+    const model = options.model || this.config.attribution?.model || 'last_touch';
+    const lookback = lookbackWindow(this.config.attribution, options.eventType);
+    return attribute(this.touchpoints.touchpoints(), model, lookback, this.config.attribution?.methodPriority);
+  }
+
+  /**
+   * Record an ad or banner impression as a view-through touchpoint
+   */
+  recordImpression(impressionId: string, source?: string): void {
+    this.touchpoints.add({
+      click_id: impressionId,
+      source: source || null,
+      method: 'view_through',
+      type: 'view',
+      timestamp: Date.now(),
+    });
+  }
+
   /**
    * Get stored attribution data
    */
   getAttributionData(): Record<string, any> | null {
     try {
-      const stored = localStorage.getItem(`${this.storagePrefix}_attribution`);
+      const stored = this.readStorage('attribution');
       return stored ? JSON.parse(stored) : null;
     } catch (error) {
       this.logError('Failed to get attribution data:', error);
@@ -1043,55 +2448,190 @@ export class AffiliateSDK {
       
       // Get launch URL (when app starts from deep link)
       const launchUrl = await App.getLaunchUrl();
+      if (this.isDestroyed) return;
       
       if (launchUrl?.url) {
         this.log('Capacitor Deep Link detected:', launchUrl.url);
-        
-        // Parse the deep link URL
-        const url = new URL(launchUrl.url);
-        const clickId = url.searchParams.get('click_id') || 
-                       url.searchParams.get('pt') || 
-                       url.searchParams.get('clickId');
-        
-        if (clickId) {
-          // Store attribution data
-          this.storeAttributionData({
-            click_id: clickId,
-            attribution_method: 'capacitor_deep_link',
-            deep_link_url: launchUrl.url,
-            timestamp: Date.now()
-          });
-          
-          // Track attribution event
-          this.trackEvent('app_attribution', {
-            click_id: clickId,
-            attribution_method: 'capacitor_deep_link',
-            deep_link_url: launchUrl.url,
-            source: 'capacitor_launch'
-          }).catch(() => {});
-        }
+        this.handleDeepLink(launchUrl.url, 'capacitor_launch');
       }
       
       // Listen for app URL open events (when app is already running)
-      App.addListener('appUrlOpen', (data: any) => {
+      const listener = App.addListener('appUrlOpen', (data: any) => {
         this.log('Capacitor App URL opened:', data.url);
-        
-        const url = new URL(data.url);
-        const clickId = url.searchParams.get('click_id') || 
-                       url.searchParams.get('pt') || 
-                       url.searchParams.get('clickId');
-        
-        if (clickId) {
-          this.trackEvent('app_url_open', {
-            click_id: clickId,
-            deep_link_url: data.url,
+        this.handleDeepLink(data.url, 'capacitor_open');
+      });
+      this.teardowns.push(() => {
+        Promise.resolve(listener).then((handle: any) => handle?.remove?.()).catch(() => {});
+      });
+      
+    } catch (error) {
+      this.log('Capacitor not available or App plugin not installed:', error);
+    }
+  }
+
+  /**
+   * Receive links from Cordova's handleOpenURL (cordova-plugin-customurlscheme),
+   * keeping a handler the app set itself
+   */
+  private listenForCordovaDeepLinks(): void {
+    const previous = (window as any).handleOpenURL;
+
+    (window as any).handleOpenURL = (url: string) => {
+      // Cordova may call this before the app has finished starting
+      setTimeout(() => this.handleDeepLink(url, 'cordova'), 0);
+      if (typeof previous === 'function') {
+        previous(url);
+      }
+    };
+    this.teardowns.push(() => {
+      (window as any).handleOpenURL = previous;
+    });
+  }
+
+  /**
+   * Store attribution for an app deep link the same way for every source,
+   * then pass it to the onDeepLink callbacks
+   */
+  private handleDeepLink(url: string, source: DeepLinkSource): void {
+    const link = parseDeepLink(url, source);
+    if (!link) {
+      this.logError('Invalid deep link:', url);
+      return;
+    }
+
+    try {
+      this.captureCampaignData(new URL(url).search);
+
+      if (link.clickId) {
+        const attributionMethod = source === 'cordova' ? 'cordova_deep_link' : 'capacitor_deep_link';
+
+        this.storeAttributionData({
+          click_id: link.clickId,
+          attribution_method: attributionMethod,
+          affiliate_code: link.affiliateCode || '',
+          campaign_source: link.affiliateCode || '',
+          deep_link_url: url,
+          timestamp: Date.now()
+        });
+
+        this.track('app_attribution', {
+          click_id: link.clickId,
+          attribution_method: attributionMethod,
+          affiliate_code: link.affiliateCode || '',
+          deep_link_url: url,
+          deep_link_path: link.path,
+          source
+        }).catch(() => {});
+
+        if (source === 'capacitor_open') {
+          this.track('app_url_open', {
+            click_id: link.clickId,
+            deep_link_url: url,
             source: 'capacitor_running'
           }).catch(() => {});
         }
+      }
+    } catch (error) {
+      this.logError('Failed to handle deep link:', error);
+    }
+
+    this.notifyDeepLink(link);
+  }
+
+  private notifyDeepLink(link: DeepLink): void {
+    this.lastDeepLink = link;
+    this.deepLinkCallbacks.forEach(callback => this.callDeepLinkCallback(callback, link));
+  }
+
+  private callDeepLinkCallback(callback: DeepLinkCallback, link: DeepLink): void {
+    try {
+      callback(link);
+    } catch (error) {
+      this.logError('onDeepLink callback failed:', error);
+    }
+  }
+
+  private hasConsent(category: ConsentCategory): boolean {
+    return this.consent[category];
+  }
+
+  /**
+   * Read a value stored under the SDK prefix. Values written before
+   * analytics consent only live in memory.
+   */
+  private readStorage(key: string): string | null {
+    if (this.deferredStorage.has(key)) {
+      return this.deferredStorage.get(key)!;
+    }
+    if (!this.hasConsent('analytics')) return null;
+
+    return localStorage.getItem(`${this.storagePrefix}_${key}`);
+  }
+
+  private writeStorage(key: string, value: string): void {
+    if (!this.hasConsent('analytics')) {
+      this.deferredStorage.set(key, value);
+      return;
+    }
+
+    localStorage.setItem(`${this.storagePrefix}_${key}`, value);
+  }
+
+  private removeStorage(key: string): void {
+    this.deferredStorage.delete(key);
+    if (!this.hasConsent('analytics')) return;
+
+    localStorage.removeItem(`${this.storagePrefix}_${key}`);
+  }
+
+  /**
+   * Persist values kept in memory while consent was missing
+   */
+  private flushDeferredStorage(): void {
+    this.deferredStorage.forEach((value, key) => {
+      try {
+        // Don't overwrite identifiers from earlier visits
+        if (key === 'device_id' && localStorage.getItem(`${this.storagePrefix}_${key}`)) return;
+        localStorage.setItem(`${this.storagePrefix}_${key}`, value);
+      } catch (e) {
+        // Ignore storage errors
+      }
+    });
+    this.deferredStorage.clear();
+  }
+
+  /**
+   * Subscribe to consent updates from an IAB TCF v2 CMP
+   */
+  private listenForTCFConsent(): void {
+    const tcfapi = (window as any).__tcfapi;
+    if (typeof tcfapi !== 'function') {
+      this.log('TCF consent requested but __tcfapi is not available');
+      return;
+    }
+
+    try {
+      tcfapi('addEventListener', 2, (tcData: any, success: boolean) => {
+        if (!success || !tcData) return;
+
+        if (this.tcfListenerId === null && typeof tcData.listenerId === 'number') {
+          this.tcfListenerId = tcData.listenerId;
+          this.teardowns.push(() => {
+            try {
+              tcfapi('removeEventListener', 2, () => {}, tcData.listenerId);
+            } catch (e) {
+              // CMP already gone
+            }
+          });
+        }
+        const consent = consentFromTCData(tcData);
+        if (consent) {
+          this.log('TCF consent received:', consent);
+          this.setConsent(consent);
+        }
       });
-      
     } catch (error) {
-      this.log('Capacitor not available or App plugin not installed:', error);
+      this.logError('Failed to read TCF consent:', error);
     }
   }
 
@@ -1114,8 +2654,14 @@ export class AffiliateSDK {
   private setupGlobalErrorHandler(): void {
     // Store original handler
     const originalHandler = window.onunhandledrejection;
+    let active = true;
     
-    window.onunhandledrejection = (event: PromiseRejectionEvent) => {
+    const handler = (event: PromiseRejectionEvent) => {
+      if (!active) {
+        originalHandler?.call(window, event);
+        return;
+      }
+      
       // Check if error is from our SDK (by checking stack trace or error message)
       const error = event.reason;
       const errorString = error?.stack || error?.toString() || '';
@@ -1142,12 +2688,34 @@ export class AffiliateSDK {
         originalHandler.call(window, event);
       }
     };
+    window.onunhandledrejection = handler;
+    
+    this.teardowns.push(() => {
+      // Someone may have chained their own handler on top of ours; then just go passive
+      active = false;
+      if (window.onunhandledrejection === handler) {
+        window.onunhandledrejection = originalHandler;
+      }
+    });
+  }
+
+  /**
+   * Add an event listener that destroy() removes again
+   */
+  private listen(
+    target: EventTarget,
+    type: string,
+    handler: EventListener,
+    options?: boolean | AddEventListenerOptions
+  ): void {
+    target.addEventListener(type, handler, options);
+    this.teardowns.push(() => target.removeEventListener(type, handler, options));
   }
 
   /**
-   * Make HTTP request with fallback to XMLHttpRequest
+   * Make HTTP request through the configured transport
    */
-  private async makeRequest(url: string, method: string = 'GET'): Promise<Response | null> {
+  private async makeRequest(request: TransportRequest): Promise<TransportResponse | null> {
     // Check if external requests are disabled
     if (this.config.disableExternalRequests) {
       this.log('External requests are disabled');
@@ -1155,52 +2723,11 @@ export class AffiliateSDK {
     }
     
     try {
-      // Try fetch first
-      if (typeof fetch !== 'undefined') {
-        try {
-          const response = await fetch(url, {
-            method,
-            mode: 'cors',
-            credentials: 'omit' // Don't send cookies to avoid tracking blockers
-          });
-          return response;
-        } catch (fetchError) {
-          // If fetch is blocked, try XMLHttpRequest
-          this.log('Fetch blocked, falling back to XMLHttpRequest');
-        }
+      const response = await this.transport.send(request);
+      if (!response) {
+        this.logError(`Request failed (${this.transport.name}):`, request.method, request.url);
       }
-      
-      // Fallback to XMLHttpRequest
-      return new Promise((resolve, reject) => {
-        const xhr = new XMLHttpRequest();
-        xhr.open(method, url, true);
-        
-        // Create a Response-like object
-        xhr.onload = () => {
-          const response = {
-            ok: xhr.status >= 200 && xhr.status < 300,
-            status: xhr.status,
-            statusText: xhr.statusText,
-            text: () => Promise.resolve(xhr.responseText),
-            json: () => Promise.resolve(JSON.parse(xhr.responseText))
-          } as Response;
-          
-          resolve(response);
-        };
-        
-        xhr.onerror = () => {
-          this.logError('XMLHttpRequest failed');
-          resolve(null);
-        };
-        
-        xhr.timeout = 10000; // 10 second timeout
-        xhr.ontimeout = () => {
-          this.logError('Request timed out');
-          resolve(null);
-        };
-        
-        xhr.send();
-      });
+      return response;
     } catch (error) {
       this.logError('Failed to make request:', error);
       return null;
@@ -1215,7 +2742,7 @@ export class AffiliateSDK {
       const url = new URL(this.config.pixelSettingsUrl!);
       url.searchParams.append('unique_code', this.config.affiliateCode);
       
-      const response = await this.makeRequest(url.toString());
+      const response = await this.makeRequest({ url: url.toString(), method: 'GET' });
       if (response && response.ok) {
         const data = await response.json();
         this.pixelSettings = data.settings || {};
@@ -1238,224 +2765,52 @@ export class AffiliateSDK {
    * Initialize tracking pixels
    */
   private initializePixels(): void {
-    if (!this.pixelSettings) return;
-
-    // Initialize Facebook Pixel
-    if (this.pixelSettings.facebook_pixel_id) {
-      this.initializeFacebookPixel(this.pixelSettings.facebook_pixel_id);
-    }
-
-    // Initialize TikTok Pixel
-    if (this.pixelSettings.tiktok_pixel_id) {
-      this.initializeTikTokPixel(this.pixelSettings.tiktok_pixel_id);
-    }
+    if (!this.pixelSettings || this.pixelsInitialized) return;
+    this.pixelsInitialized = true;
 
-    // Initialize Google Ads
-    if (this.pixelSettings.google_ads_id) {
-      this.initializeGoogleAds(this.pixelSettings.google_ads_id);
-    }
-  }
-
-  /**
-   * Initialize Facebook Pixel
-   */
-  private initializeFacebookPixel(pixelId: string): void {
-    try {
-      // Create Facebook Pixel script
-      const script = document.createElement('script');
-      script.innerHTML = `
-        !function(f,b,e,v,n,t,s)
-        {if(f.fbq)return;n=f.fbq=function(){n.callMethod?
-        n.callMethod.apply(n,arguments):n.queue.push(arguments)};
-        if(!f._fbq)f._fbq=n;n.push=n;n.loaded=!0;n.version='2.0';
-        n.queue=[];t=b.createElement(e);t.async=!0;
-        t.src=v;s=b.getElementsByTagName(e)[0];
-        s.parentNode.insertBefore(t,s)}(window, document,'script',
-        'https://connect.facebook.net/en_US/fbevents.js');
-        fbq('init', '${pixelId}');
-        fbq('track', 'PageView');
-      `;
-      document.head.appendChild(script);
-      
-      // Add noscript fallback
-      const noscript = document.createElement('noscript');
-      const img = document.createElement('img');
-      img.height = 1;
-      img.width = 1;
-      img.style.display = 'none';
-      img.src = `https://www.facebook.com/tr?id=${pixelId}&ev=PageView&noscript=1`;
-      noscript.appendChild(img);
-      document.head.appendChild(noscript);
-      
-      this.log('Facebook Pixel initialized:', pixelId);
-    } catch (error) {
-      this.logError('Failed to initialize Facebook Pixel:', error);
-    }
+    this.destinations.entries().forEach(([settingsKey, destination]) => {
+      this.initializeDestination(settingsKey, destination);
+    });
   }
 
   /**
-   * Initialize TikTok Pixel
+   * Initialize a destination if the pixel settings enable it
    */
-  private initializeTikTokPixel(pixelId: string): void {
-    try {
-      const script = document.createElement('script');
-      script.innerHTML = `
-        !function (w, d, t) {
-          w.TiktokAnalyticsObject=t;var ttq=w[t]=w[t]||[];ttq.methods=["page","track","identify","instances","debug","on","off","once","ready","alias","group","enableCookie","disableCookie"],ttq.setAndDefer=function(t,e){t[e]=function(){t.push([e].concat(Array.prototype.slice.call(arguments,0)))}};for(var i=0;i<ttq.methods.length;i++)ttq.setAndDefer(ttq,ttq.methods[i]);ttq.instance=function(t){for(var e=ttq._i[t]||[],n=0;n<ttq.methods.length;n++)ttq.setAndDefer(e,ttq.methods[n]);return e},ttq.load=function(e,n){var i="https://analytics.tiktok.com/i18n/pixel/events.js";ttq._i=ttq._i||{},ttq._i[e]=[],ttq._i[e]._u=i,ttq._t=ttq._t||{},ttq._t[e]=+new Date,ttq._o=ttq._o||{},ttq._o[e]=n||{};var o=document.createElement("script");o.type="text/javascript",o.async=!0,o.src=i+"?sdkid="+e+"&lib="+t;var a=document.getElementsByTagName("script")[0];a.parentNode.insertBefore(o,a)};
-          ttq.load('${pixelId}');
-          ttq.page();
-        }(window, document, 'ttq');
-      `;
-      document.head.appendChild(script);
-      
-      this.log('TikTok Pixel initialized:', pixelId);
-    } catch (error) {
-      this.logError('Failed to initialize TikTok Pixel:', error);
-    }
-  }
+  private initializeDestination(settingsKey: string, destination: Destination): void {
+    const id = this.pixelSettings?.[settingsKey];
+    if (typeof id !== 'string' || !id) return;
 
-  /**
-   * Initialize Google Ads
-   */
-  private initializeGoogleAds(adsId: string): void {
+    const mapping = this.pixelSettings?.mappings?.[settingsKey];
     try {
-      // Load gtag script
-      const script1 = document.createElement('script');
-      script1.async = true;
-      script1.src = `https://www.googletagmanager.com/gtag/js?id=${adsId}`;
-      document.head.appendChild(script1);
-      
-      // Initialize gtag
-      const script2 = document.createElement('script');
-      script2.innerHTML = `
-        window.dataLayer = window.dataLayer || [];
-        function gtag(){dataLayer.push(arguments);}
-        gtag('js', new Date());
-        gtag('config', '${adsId}');
-      `;
-      document.head.appendChild(script2);
-      
-      this.log('Google Ads initialized:', adsId);
+      destination.init(id, mapping);
+      this.activeDestinations.push({ destination, mapping });
+      this.log(`${destination.name} initialized:`, id);
     } catch (error) {
-      this.logError('Failed to initialize Google Ads:', error);
+      this.logError(`Failed to initialize ${destination.name}:`, error);
     }
   }
 
   /**
    * Send events to configured pixels
    */
-  private async sendToPixels(eventName: string, parameters: EventParameters): Promise<void> {
-    if (!this.pixelSettings) return;
+  private async sendToPixels(eventName: string, parameters: EventParameters, eventId: string): Promise<void> {
+    if (!this.pixelSettings || !this.pixelsInitialized) return;
 
+    this.isSendingToPixels = true;
     try {
-      // Facebook Pixel events
-      if (this.pixelSettings.facebook_pixel_id && (window as any).fbq) {
-        this.sendToFacebookPixel(eventName, parameters);
-      }
-
-      // TikTok Pixel events
-      if (this.pixelSettings.tiktok_pixel_id && (window as any).ttq) {
-        this.sendToTikTokPixel(eventName, parameters);
-      }
-
-      // Google Ads events
-      if (this.pixelSettings.google_ads_id && (window as any).gtag) {
-        this.sendToGoogleAds(eventName, parameters);
-      }
-    } catch (error) {
-      this.logError('Error sending to pixels:', error);
-    }
-  }
-
-  /**
-   * Send event to Facebook Pixel
-   */
-  private sendToFacebookPixel(eventName: string, parameters: EventParameters): void {
-    const fbq = (window as any).fbq;
-    if (!fbq) return;
-
-    // Map event names to Facebook events
-    const eventMap: Record<string, string> = {
-      'page_view': 'PageView',
-      'purchase': 'Purchase',
-      'add_to_cart': 'AddToCart',
-      'button_click': 'Contact',
-      'form_submit': 'Lead',
-      'click': 'Contact'
-    };
-
-    const facebookEvent = eventMap[eventName] || 'CustomEvent';
-    const eventData: any = {};
-
-    // Map parameters to Facebook format
-    if (parameters.amount) eventData.value = parameters.amount;
-    if (parameters.currency) eventData.currency = parameters.currency;
-    if (parameters.product_id) eventData.content_ids = [parameters.product_id];
-    if (parameters.transaction_id) eventData.order_id = parameters.transaction_id;
-
-    fbq('track', facebookEvent, eventData);
-    this.log('Facebook Pixel event sent:', facebookEvent, eventData);
-  }
-
-  /**
-   * Send event to TikTok Pixel
-   */
-  private sendToTikTokPixel(eventName: string, parameters: EventParameters): void {
-    const ttq = (window as any).ttq;
-    if (!ttq) return;
+      this.activeDestinations.forEach(({ destination, mapping }) => {
+        if (!isEventAllowed(eventName, mapping)) return;
 
-    // Map event names to TikTok events
-    const eventMap: Record<string, string> = {
-      'page_view': 'ViewContent',
-      'purchase': 'CompletePayment',
-      'add_to_cart': 'AddToCart',
-      'button_click': 'Contact',
-      'form_submit': 'SubmitForm',
-      'click': 'ClickButton'
-    };
-
-    const tiktokEvent = eventMap[eventName] || 'CustomEvent';
-    const eventData: any = {};
-
-    // Map parameters to TikTok format
-    if (parameters.amount) eventData.value = parameters.amount;
-    if (parameters.currency) eventData.currency = parameters.currency;
-    if (parameters.product_id) eventData.content_id = parameters.product_id;
-
-    ttq.track(tiktokEvent, eventData);
-    this.log('TikTok Pixel event sent:', tiktokEvent, eventData);
-  }
-
-  /**
-   * Send event to Google Ads
-   */
-  private sendToGoogleAds(eventName: string, parameters: EventParameters): void {
-    const gtag = (window as any).gtag;
-    if (!gtag) return;
-
-    // Map event names to Google Ads events
-    const eventMap: Record<string, string> = {
-      'page_view': 'page_view',
-      'purchase': 'purchase',
-      'add_to_cart': 'add_to_cart',
-      'button_click': 'generate_lead',
-      'form_submit': 'generate_lead',
-      'click': 'select_content'
-    };
-
-    const googleEvent = eventMap[eventName] || 'custom_event';
-    const eventData: any = {};
-
-    // Map parameters to Google Ads format
-    if (parameters.amount) {
-      eventData.value = parameters.amount;
-      eventData.currency = parameters.currency || 'USD';
+        try {
+          destination.track({ name: eventName, parameters, eventId });
+          this.log(`${destination.name} event sent:`, eventName, eventId);
+        } catch (error) {
+          this.logError(`Error sending to ${destination.name}:`, error);
+        }
+      });
+    } finally {
+      this.isSendingToPixels = false;
     }
-    if (parameters.product_id) eventData.item_id = parameters.product_id;
-    if (parameters.transaction_id) eventData.transaction_id = parameters.transaction_id;
-
-    gtag('event', googleEvent, eventData);
-    this.log('Google Ads event sent:', googleEvent, eventData);
   }
 }
 
@@ -0,0 +1,122 @@
+/**
+ * Event parameters interface
+ */
+export interface EventParameters {
+  [key: string]: string | number | boolean | null | undefined;
+}
+
+/**
+ * Event payload built by trackEvent(). `additional_data` holds all event
+ * parameters and is serialized to JSON when the event is sent.
+ */
+export interface EventPayload {
+  unique_code: string;
+  event_type: string;
+  event_id: string; // Shared with the ad pixels so they can deduplicate server events
+  timestamp: number;
+  session_id: string | null;
+  session_number?: number; // Sessions started on this device
+  event_sequence?: number; // Events tracked on this device
+  platform: string;
+  url: string;
+  device_id?: string;
+  user_id?: EventParameters[string];
+  amount?: EventParameters[string];
+  currency?: EventParameters[string];
+  additional_data: EventParameters;
+  app_code?: string;
+  [key: string]: any;
+}
+
+/**
+ * Where and for whom an event is built
+ */
+export interface PayloadContext {
+  affiliateCode: string;
+  appCode?: string;
+  platform: string;
+  url: string;
+  sessionId: string | null;
+  sessionNumber?: number;
+  eventSequence?: number;
+  deviceId?: string;
+  userId?: string | null;
+  timestamp?: number;
+  eventId?: string;
+}
+
+/**
+ * Unique event id (UUID v4)
+ */
+export function generateEventId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.random() * 16 | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Build the payload the tracker expects. Shared by the browser SDK and the server tracker.
+ */
+export function buildEventPayload(
+  eventName: string,
+  parameters: EventParameters,
+  context: PayloadContext
+): EventPayload {
+  // Сохраняем все дополнительные данные в additional_data
+  const payload: EventPayload = {
+    unique_code: context.affiliateCode,
+    event_type: eventName,
+    event_id: context.eventId || generateEventId(),
+    timestamp: context.timestamp ?? Date.now(),
+    session_id: context.sessionId,
+    session_number: context.sessionNumber,
+    event_sequence: context.eventSequence,
+    platform: context.platform,
+    url: context.url,
+    device_id: context.deviceId, // Постоянный ID устройства
+    // Важные поля на верхнем уровне
+    user_id: parameters.user_id ?? context.userId ?? undefined,
+    amount: parameters.amount,
+    currency: parameters.currency,
+    // Все остальные параметры в additional_data
+    additional_data: { ...parameters },
+  };
+
+  // Добавляем app_code только если он указан
+  if (context.appCode) {
+    payload.app_code = context.appCode;
+  }
+
+  return payload;
+}
+
+/**
+ * Wire format: additional_data travels as a JSON string
+ */
+export function serializeEvent(eventData: Record<string, any>): Record<string, any> {
+  if (eventData.additional_data && typeof eventData.additional_data === 'object') {
+    return { ...eventData, additional_data: JSON.stringify(eventData.additional_data) };
+  }
+  return eventData;
+}
+
+/**
+ * GET url for a single event, in the universal-tracker.php query format
+ */
+export function buildTrackerUrl(baseUrl: string, eventData: Record<string, any>): string {
+  const url = new URL(baseUrl);
+
+  // Add all event data as query parameters
+  Object.entries(serializeEvent(eventData)).forEach(([key, value]) => {
+    if (value !== null && value !== undefined) {
+      url.searchParams.append(key, String(value));
+    }
+  });
+
+  return url.toString();
+}
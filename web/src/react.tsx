@@ -16,9 +16,16 @@ export function useAffiliateSDK(config: AffiliateSDKConfig) {
     }
 
     return () => {
-      // Cleanup if needed
-      if (sdkRef.current) {
-        sdkRef.current.trackSessionEnd();
+      const sdk = sdkRef.current;
+      sdkRef.current = null;
+      isInitializedRef.current = false;
+
+      // End the session, then remove listeners and timers so remounts don't double-count
+      if (sdk) {
+        sdk.trackSessionEnd()
+          .catch(() => {})
+          .then(() => sdk.destroy())
+          .catch(() => {});
       }
     };
   }, []);
@@ -46,6 +53,9 @@ export function usePageTracking(sdk: AffiliateSDK | null) {
     // Track initial page view
     trackPageView();
 
+    // The core SDK already tracks route changes (autoTrack.pageViews)
+    if (sdk.isTrackingRoutes()) return;
+
     // Listen for route changes (for SPAs)
     const handlePopState = () => {
       setTimeout(trackPageView, 0); // Delay to ensure DOM is updated
@@ -0,0 +1,91 @@
+import { TransportResponse } from './transports';
+
+/**
+ * Retry options
+ */
+export interface RetryOptions {
+  maxRetries?: number; // Attempts after the first failed send
+  baseDelay?: number; // Milliseconds, doubled on every attempt
+  maxDelay?: number; // Upper bound for a single backoff delay
+}
+
+/**
+ * Why an event was given up on
+ */
+export type EventDropReason = 'rejected' | 'max_retries' | 'queue_limit';
+
+/**
+ * Details passed to `onEventDropped`
+ */
+export interface EventDropInfo {
+  reason: EventDropReason;
+  status?: number;
+  retryCount: number;
+}
+
+/**
+ * Outcome of a single delivery attempt
+ */
+export type DeliveryResult =
+  | { outcome: 'sent'; status: number }
+  | { outcome: 'retry'; status?: number; retryAfter?: number }
+  | { outcome: 'drop'; status: number };
+
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_RETRY_BASE_DELAY = 1000;
+export const DEFAULT_RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+/**
+ * Classify a response: network errors, 5xx and 429 are retried,
+ * other 4xx are dropped because sending them again will not help.
+ */
+export function classifyResponse(response: TransportResponse | null): DeliveryResult {
+  if (!response) {
+    return { outcome: 'retry' };
+  }
+
+  if (response.ok || (response.status >= 300 && response.status < 400)) {
+    return { outcome: 'sent', status: response.status };
+  }
+
+  if (response.status === 429 || response.status >= 500) {
+    return {
+      outcome: 'retry',
+      status: response.status,
+      retryAfter: parseRetryAfter(response.headers?.get('Retry-After') ?? null),
+    };
+  }
+
+  return { outcome: 'drop', status: response.status };
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and
+ * the full exponential value, so clients don't retry in lockstep.
+ */
+export function computeBackoff(attempt: number, options: RetryOptions = {}): number {
+  const baseDelay = options.baseDelay ?? DEFAULT_RETRY_BASE_DELAY;
+  const maxDelay = options.maxDelay ?? DEFAULT_RETRY_MAX_DELAY;
+  const exponential = Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
@@ -0,0 +1,119 @@
+import { EventParameters } from './payload';
+
+/**
+ * Revenue options for purchases
+ */
+export interface RevenueOptions {
+  minorUnits?: boolean; // Amounts are given in minor units, e.g. cents (default: false)
+  invalidPurchases?: 'flag' | 'reject'; // Send invalid purchases with revenue_invalid, or drop them (default: flag)
+  exchangeRates?: Record<string, number>; // Units of each currency per 1 USD, adds amount_usd
+}
+
+/**
+ * Why a purchase amount was not accepted
+ */
+export type RevenueError = 'invalid_amount' | 'negative_amount' | 'zero_amount' | 'invalid_currency';
+
+/**
+ * Amount and currency after validation
+ */
+export interface NormalizedRevenue {
+  amount: number;
+  currency: string;
+  amountUsd?: number;
+  errors: RevenueError[];
+}
+
+// ISO 4217 codes with their decimal places. Most currencies use 2.
+const ZERO_DECIMALS = ['BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG', 'RWF', 'UGX', 'UYI',
+  'VND', 'VUV', 'XAF', 'XOF', 'XPF'];
+const THREE_DECIMALS = ['BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND'];
+const FOUR_DECIMALS = ['CLF', 'UYW'];
+const TWO_DECIMALS = ['AED', 'AFN', 'ALL', 'AMD', 'ANG', 'AOA', 'ARS', 'AUD', 'AWG', 'AZN', 'BAM', 'BBD',
+  'BDT', 'BGN', 'BMD', 'BND', 'BOB', 'BRL', 'BSD', 'BTN', 'BWP', 'BYN', 'BZD', 'CAD', 'CDF', 'CHF', 'CNY',
+  'COP', 'CRC', 'CUP', 'CVE', 'CZK', 'DKK', 'DOP', 'DZD', 'EGP', 'ERN', 'ETB', 'EUR', 'FJD', 'FKP', 'GBP',
+  'GEL', 'GHS', 'GIP', 'GMD', 'GTQ', 'GYD', 'HKD', 'HNL', 'HTG', 'HUF', 'IDR', 'ILS', 'INR', 'IRR', 'JMD',
+  'KES', 'KGS', 'KHR', 'KPW', 'KYD', 'KZT', 'LAK', 'LBP', 'LKR', 'LRD', 'LSL', 'MAD', 'MDL', 'MGA', 'MKD',
+  'MMK', 'MNT', 'MOP', 'MRU', 'MUR', 'MVR', 'MWK', 'MXN', 'MYR', 'MZN', 'NAD', 'NGN', 'NIO', 'NOK', 'NPR',
+  'NZD', 'PAB', 'PEN', 'PGK', 'PHP', 'PKR', 'PLN', 'QAR', 'RON', 'RSD', 'RUB', 'SAR', 'SBD', 'SCR', 'SDG',
+  'SEK', 'SGD', 'SHP', 'SLE', 'SOS', 'SRD', 'SSP', 'STN', 'SVC', 'SYP', 'SZL', 'THB', 'TJS', 'TMT', 'TOP',
+  'TRY', 'TTD', 'TWD', 'TZS', 'UAH', 'USD', 'UYU', 'UZS', 'VES', 'WST', 'XCD', 'YER', 'ZAR', 'ZMW', 'ZWG'];
+
+const CURRENCY_DECIMALS: Record<string, number> = {};
+TWO_DECIMALS.forEach(code => { CURRENCY_DECIMALS[code] = 2; });
+ZERO_DECIMALS.forEach(code => { CURRENCY_DECIMALS[code] = 0; });
+THREE_DECIMALS.forEach(code => { CURRENCY_DECIMALS[code] = 3; });
+FOUR_DECIMALS.forEach(code => { CURRENCY_DECIMALS[code] = 4; });
+
+/**
+ * Decimal places of an ISO 4217 currency, or undefined for unknown codes
+ */
+export function currencyDecimals(currency: string): number | undefined {
+  return CURRENCY_DECIMALS[currency];
+}
+
+/**
+ * Validate a purchase amount and currency, convert minor units and round
+ * to the currency's decimal places. Unknown currencies are rounded to 2.
+ */
+export function normalizeRevenue(
+  amount: unknown,
+  currency: unknown,
+  options: RevenueOptions = {}
+): NormalizedRevenue {
+  const errors: RevenueError[] = [];
+
+  const code = typeof currency === 'string' && currency.trim() ? currency.trim().toUpperCase() : 'USD';
+  let decimals = currencyDecimals(code);
+  if (decimals === undefined) {
+    errors.push('invalid_currency');
+    decimals = 2;
+  }
+
+  const parsed = typeof amount === 'string' && amount.trim() ? Number(amount) : amount;
+  if (typeof parsed !== 'number' || !isFinite(parsed)) {
+    return { amount: 0, currency: code, errors: ['invalid_amount', ...errors] };
+  }
+
+  let value = parsed;
+
+  if (options.minorUnits) {
+    value = value / Math.pow(10, decimals);
+  }
+  const factor = Math.pow(10, decimals);
+  value = Math.round(value * factor) / factor;
+
+  if (value < 0) errors.push('negative_amount');
+  if (value === 0) errors.push('zero_amount');
+
+  const result: NormalizedRevenue = { amount: value, currency: code, errors };
+
+  const rate = code === 'USD' ? 1 : options.exchangeRates?.[code];
+  if (options.exchangeRates && rate && rate > 0) {
+    result.amountUsd = Math.round(value / rate * 100) / 100;
+  }
+
+  return result;
+}
+
+/**
+ * Normalize amount and currency of purchase parameters. Invalid purchases
+ * get revenue_invalid and a comma separated revenue_errors list.
+ */
+export function normalizePurchaseParameters(
+  parameters: EventParameters,
+  options: RevenueOptions = {}
+): { parameters: EventParameters; errors: RevenueError[] } {
+  const revenue = normalizeRevenue(parameters.amount, parameters.currency, options);
+  const normalized: EventParameters = { ...parameters, amount: revenue.amount, currency: revenue.currency };
+
+  if (revenue.amountUsd !== undefined) {
+    normalized.amount_usd = revenue.amountUsd;
+  }
+  if (revenue.errors.length > 0) {
+    normalized.revenue_invalid = true;
+    normalized.revenue_errors = revenue.errors.join(',');
+  }
+
+  return { parameters: normalized, errors: revenue.errors };
+}
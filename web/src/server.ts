@@ -0,0 +1,221 @@
+import type { PurchaseData } from './index';
+import { EventParameters, EventPayload, buildEventPayload, buildTrackerUrl } from './payload';
+import { RetryOptions, EventDropInfo, DeliveryResult, classifyResponse, computeBackoff, DEFAULT_MAX_RETRIES } from './retry';
+import { Transport, FetchTransport } from './transports';
+import { RevenueOptions, normalizePurchaseParameters } from './revenue';
+
+export type { EventParameters, EventPayload } from './payload';
+export type { RetryOptions, EventDropReason, EventDropInfo } from './retry';
+export type { Transport, TransportRequest, TransportResponse } from './transports';
+export type { RevenueOptions, RevenueError } from './revenue';
+export type { PurchaseData } from './index';
+
+/**
+ * Server tracker configuration
+ */
+export interface ServerTrackerConfig {
+  affiliateCode: string;
+  appCode?: string;
+  baseUrl?: string;
+  debug?: boolean;
+  transport?: Transport; // Defaults to the global fetch (Node 18+)
+  retry?: RetryOptions; // maxDelay defaults to 30 seconds, the caller waits for the result
+  revenue?: RevenueOptions; // Same purchase validation as the browser SDK
+  onEventDropped?: (event: Record<string, any>, info: EventDropInfo) => void;
+}
+
+/**
+ * Who an event belongs to. There is no browser to read these from,
+ * so pass what you stored with the order, e.g. from the checkout page.
+ */
+export interface ServerEventContext {
+  clickId?: string;
+  deviceId?: string;
+  userId?: string;
+  sessionId?: string;
+  attributionMethod?: string; // Sent with click_id (default: server_postback)
+  eventId?: string; // event_id of the matching browser event, so pixels can deduplicate
+  url?: string;
+  timestamp?: number;
+}
+
+/**
+ * Refund data interface
+ */
+export interface RefundData {
+  amount: number;
+  currency?: string;
+  transactionId: string; // Transaction of the refunded purchase
+  productId?: string;
+  reason?: string;
+  additionalData?: Record<string, any>;
+}
+
+/**
+ * Subscription status reported by the server
+ */
+export interface SubscriptionStatusData {
+  isActive: boolean;
+  subscriptionType?: string | null;
+  expiryDate?: string | null;
+  userId?: string;
+}
+
+const DEFAULT_SERVER_MAX_DELAY = 30 * 1000;
+
+/**
+ * Server-to-server tracker for Node.js, e.g. for payment webhooks.
+ * Sends the same payload as AffiliateSDK.trackEvent() and retries in
+ * process; methods resolve to whether the tracker accepted the event.
+ */
+export class ServerTracker {
+  private readonly config: ServerTrackerConfig;
+  private readonly transport: Transport;
+  private readonly platform = 'server';
+
+  constructor(config: ServerTrackerConfig) {
+    this.config = {
+      baseUrl: 'https://affiliate.33rd.pro/api/universal-tracker.php',
+      debug: false,
+      ...config,
+    };
+    this.transport = this.config.transport || new FetchTransport();
+  }
+
+  /**
+   * Track a custom event
+   */
+  async trackEvent(
+    eventName: string,
+    parameters: EventParameters = {},
+    context: ServerEventContext = {}
+  ): Promise<boolean> {
+    const payload = buildEventPayload(eventName, parameters, {
+      affiliateCode: this.config.affiliateCode,
+      appCode: this.config.appCode,
+      platform: this.platform,
+      url: context.url || '',
+      sessionId: context.sessionId || null,
+      deviceId: context.deviceId,
+      userId: context.userId,
+      timestamp: context.timestamp,
+      eventId: context.eventId,
+    });
+
+    if (context.clickId) {
+      payload.click_id = context.clickId;
+      payload.attribution_method = context.attributionMethod || 'server_postback';
+    }
+
+    return this.send(payload);
+  }
+
+  /**
+   * Track purchase event
+   */
+  async trackPurchase(purchaseData: PurchaseData, context: ServerEventContext = {}): Promise<boolean> {
+    const revenue = normalizePurchaseParameters({
+      amount: purchaseData.amount,
+      currency: purchaseData.currency || 'USD',
+      product_id: purchaseData.productId,
+      transaction_id: purchaseData.transactionId,
+      ...purchaseData.additionalData,
+    }, this.config.revenue);
+
+    if (revenue.errors.length > 0) {
+      if (this.config.revenue?.invalidPurchases === 'reject') {
+        this.logError('Invalid purchase, dropping it:', revenue.errors);
+        return false;
+      }
+      this.logError('Invalid purchase, sending it flagged:', revenue.errors);
+    }
+
+    return this.trackEvent('purchase', revenue.parameters, context);
+  }
+
+  /**
+   * Track refund event
+   */
+  async trackRefund(refundData: RefundData, context: ServerEventContext = {}): Promise<boolean> {
+    return this.trackEvent('refund', {
+      amount: refundData.amount,
+      currency: refundData.currency || 'USD',
+      product_id: refundData.productId,
+      transaction_id: refundData.transactionId,
+      reason: refundData.reason,
+      ...refundData.additionalData,
+    }, context);
+  }
+
+  /**
+   * Track subscription status
+   */
+  async trackSubscriptionStatus(status: SubscriptionStatusData, context: ServerEventContext = {}): Promise<boolean> {
+    return this.trackEvent('subscription_status', {
+      is_premium: status.isActive,
+      subscription_type: status.subscriptionType,
+      expiry_date: status.expiryDate,
+      user_id: status.userId,
+      timestamp: new Date().toISOString()
+    }, context);
+  }
+
+  private async send(payload: EventPayload): Promise<boolean> {
+    const url = buildTrackerUrl(this.config.baseUrl!, payload);
+    const maxRetries = this.config.retry?.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const retryOptions = { maxDelay: DEFAULT_SERVER_MAX_DELAY, ...this.config.retry };
+
+    for (let attempt = 0; ; attempt++) {
+      let result: DeliveryResult;
+      try {
+        result = classifyResponse(await this.transport.send({ url, method: 'GET' }));
+      } catch (error) {
+        this.logError('Failed to send event:', error);
+        result = { outcome: 'retry' };
+      }
+
+      if (result.outcome === 'sent') {
+        this.log('Event sent successfully:', payload.event_type);
+        return true;
+      }
+
+      if (result.outcome === 'drop') {
+        this.logError(`Event rejected with status ${result.status}, dropping:`, payload.event_type);
+        this.reportDroppedEvent(payload, { reason: 'rejected', status: result.status, retryCount: attempt });
+        return false;
+      }
+
+      if (attempt >= maxRetries) {
+        this.logError('Giving up on event after', attempt, 'retries:', payload.event_type);
+        this.reportDroppedEvent(payload, { reason: 'max_retries', status: result.status, retryCount: attempt });
+        return false;
+      }
+
+      const delay = Math.min(result.retryAfter ?? computeBackoff(attempt, retryOptions), retryOptions.maxDelay);
+      this.log('Request failed - retrying in', delay, 'ms:', payload.event_type);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  private reportDroppedEvent(payload: EventPayload, info: EventDropInfo): void {
+    if (!this.config.onEventDropped) return;
+
+    try {
+      this.config.onEventDropped(payload, info);
+    } catch (error) {
+      this.logError('onEventDropped callback failed:', error);
+    }
+  }
+
+  private log(...args: any[]): void {
+    if (this.config.debug) {
+      console.log('[AffiliateSDK]', ...args);
+    }
+  }
+
+  private logError(...args: any[]): void {
+    if (this.config.debug) {
+      console.warn('[AffiliateSDK]', ...args);
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { ValueStorage } from './storage';
+
+/**
+ * Session configuration
+ */
+export interface SessionOptions {
+  timeout?: number; // Inactivity before a new session starts (default: 30 minutes)
+  maxDuration?: number; // Absolute session length (default: 4 hours)
+  splitAtMidnight?: boolean; // Start a new session at local midnight (default: true)
+}
+
+/**
+ * Why a session ended
+ */
+export type SessionEndReason = 'timeout' | 'max_duration' | 'midnight' | 'attribution_change' | 'hidden';
+
+/**
+ * Persisted session state. `number` and `sequence` are per device and
+ * carry over from one session to the next.
+ */
+export interface SessionState {
+  id: string;
+  number: number; // Sessions started on this device
+  startedAt: number;
+  lastActivityAt: number;
+  eventCount: number; // Events tracked in this session
+  sequence: number; // Events tracked on this device
+  attributionKey: string | null; // click_id the session was attributed to
+  endedAt?: number; // Set once session_end was sent. The session can resume, but sends no second one.
+}
+
+export const DEFAULT_SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+export const DEFAULT_MAX_SESSION_DURATION = 4 * 60 * 60 * 1000; // 4 hours
+
+/**
+ * Keeps the current session and the per-device counters in storage
+ */
+export class SessionManager {
+  private state: SessionState | null = null;
+
+  constructor(
+    private readonly storage: ValueStorage,
+    private readonly options: SessionOptions = {}
+  ) {}
+
+  /**
+   * Current session. Re-read on every call because other tabs share it.
+   */
+  current(): SessionState | null {
+    const stored = this.load();
+    if (stored) {
+      this.state = stored;
+    }
+    return this.state;
+  }
+
+  /**
+   * Reason the current session can no longer be continued, or null
+   */
+  expiryReason(now: number = Date.now()): SessionEndReason | null {
+    const session = this.current();
+    if (!session) return null;
+
+    const timeout = this.options.timeout ?? DEFAULT_SESSION_TIMEOUT;
+    const maxDuration = this.options.maxDuration ?? DEFAULT_MAX_SESSION_DURATION;
+
+    if (now - session.lastActivityAt > timeout) return 'timeout';
+    if (now - session.startedAt > maxDuration) return 'max_duration';
+    if (this.options.splitAtMidnight !== false &&
+        new Date(session.startedAt).toDateString() !== new Date(now).toDateString()) {
+      return 'midnight';
+    }
+    return null;
+  }
+
+  /**
+   * Start a new session, keeping the device counters of the previous one
+   */
+  start(id: string, attributionKey: string | null, now: number = Date.now()): SessionState {
+    const previous = this.current();
+
+    this.state = {
+      id,
+      number: (previous?.number || 0) + 1,
+      startedAt: now,
+      lastActivityAt: now,
+      eventCount: 0,
+      sequence: previous?.sequence || 0,
+      attributionKey,
+    };
+    this.save();
+    return this.state;
+  }
+
+  /**
+   * Next event sequence number for this device
+   */
+  nextSequence(): number {
+    const session = this.current();
+    if (!session) return 0;
+
+    session.sequence++;
+    this.save();
+    return session.sequence;
+  }
+
+  /**
+   * Count an event towards the current session
+   */
+  touch(now: number = Date.now()): void {
+    const session = this.current();
+    if (!session) return;
+
+    session.eventCount++;
+    session.lastActivityAt = now;
+    this.save();
+  }
+
+  /**
+   * Remember that session_end was sent for the current session
+   */
+  markEnded(now: number = Date.now()): void {
+    const session = this.current();
+    if (!session) return;
+
+    session.endedAt = now;
+    this.save();
+  }
+
+  /**
+   * Attach an attribution key to the current session without rotating it
+   */
+  setAttributionKey(attributionKey: string | null): void {
+    const session = this.current();
+    if (!session) return;
+
+    session.attributionKey = attributionKey;
+    this.save();
+  }
+
+  private load(): SessionState | null {
+    try {
+      const stored = this.storage.read();
+      const state = stored ? JSON.parse(stored) : null;
+      return state && typeof state.id === 'string' ? state : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private save(): void {
+    if (!this.state) return;
+
+    try {
+      this.storage.write(JSON.stringify(this.state));
+    } catch (e) {
+      // Sessions keep working in memory
+    }
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Access to one stored value, so sessions, ledgers and touchpoints follow
+ * the SDK's consent rules
+ */
+export interface ValueStorage {
+  read(): string | null;
+  write(value: string): void;
+}
@@ -0,0 +1,128 @@
+/**
+ * Subscription status
+ * - trial: in a free trial
+ * - active: paid and renewing
+ * - grace_period: renewal payment failed, access kept while billing is retried
+ * - cancelled: will not renew, access until the end of the current period
+ * - expired: no access
+ */
+export type SubscriptionStatus = 'none' | 'trial' | 'active' | 'grace_period' | 'cancelled' | 'expired';
+
+/**
+ * Lifecycle transitions. Each one is tracked as an event of the same name.
+ */
+export type SubscriptionTransition =
+  | 'trial_started'
+  | 'subscription_started'
+  | 'subscription_renewed'
+  | 'trial_converted'
+  | 'subscription_cancelled'
+  | 'subscription_expired'
+  | 'billing_issue';
+
+/**
+ * Data passed with a transition. Missing fields keep their current value.
+ */
+export interface SubscriptionDetails {
+  productId?: string;
+  price?: number;
+  currency?: string;
+  periodStart?: Date | number | string;
+  periodEnd?: Date | number | string; // End of the trial or the paid period
+  transactionId?: string;
+  reason?: string; // Why it was cancelled or billing failed
+  additionalData?: Record<string, any>;
+}
+
+/**
+ * Persisted subscription state
+ */
+export interface SubscriptionState {
+  status: SubscriptionStatus;
+  productId: string | null;
+  price: number | null;
+  currency: string | null;
+  periodStart: number | null;
+  periodEnd: number | null;
+  renewals: number;
+  updatedAt: number | null;
+}
+
+/**
+ * Allowed transitions and the status each one leads to
+ */
+const TRANSITIONS: Record<SubscriptionTransition, { from: SubscriptionStatus[]; to: SubscriptionStatus }> = {
+  trial_started: { from: ['none', 'expired'], to: 'trial' },
+  subscription_started: { from: ['none', 'expired', 'cancelled'], to: 'active' },
+  subscription_renewed: { from: ['active', 'grace_period'], to: 'active' },
+  trial_converted: { from: ['trial'], to: 'active' },
+  subscription_cancelled: { from: ['trial', 'active', 'grace_period'], to: 'cancelled' },
+  subscription_expired: { from: ['trial', 'active', 'grace_period', 'cancelled'], to: 'expired' },
+  billing_issue: { from: ['trial', 'active', 'grace_period'], to: 'grace_period' },
+};
+
+export function initialSubscriptionState(): SubscriptionState {
+  return {
+    status: 'none',
+    productId: null,
+    price: null,
+    currency: null,
+    periodStart: null,
+    periodEnd: null,
+    renewals: 0,
+    updatedAt: null,
+  };
+}
+
+/**
+ * Apply a transition, or return null if it is impossible from the current status
+ */
+export function applySubscriptionTransition(
+  state: SubscriptionState,
+  transition: SubscriptionTransition,
+  details: SubscriptionDetails = {},
+  now: number = Date.now()
+): SubscriptionState | null {
+  const rule = TRANSITIONS[transition];
+  if (rule.from.indexOf(state.status) === -1) return null;
+
+  // A new period starts now unless the caller says otherwise
+  const startsPeriod = transition === 'trial_started' || transition === 'subscription_started' ||
+    transition === 'subscription_renewed' || transition === 'trial_converted';
+  let periodStart = toTimestamp(details.periodStart);
+  let periodEnd = toTimestamp(details.periodEnd);
+
+  // Without new dates a renewal repeats the previous period
+  if (transition === 'subscription_renewed' && periodEnd === null &&
+      state.periodStart !== null && state.periodEnd !== null) {
+    periodStart = periodStart ?? state.periodEnd;
+    periodEnd = periodStart + (state.periodEnd - state.periodStart);
+  }
+
+  return {
+    status: rule.to,
+    productId: details.productId ?? state.productId,
+    price: details.price ?? state.price,
+    currency: details.currency ?? state.currency,
+    periodStart: periodStart ?? (startsPeriod ? now : state.periodStart),
+    periodEnd: periodEnd ?? (startsPeriod ? null : state.periodEnd),
+    renewals: transition === 'subscription_renewed' ? state.renewals + 1 :
+      transition === 'subscription_started' || transition === 'trial_started' ? 0 : state.renewals,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Whether the user currently has access
+ */
+export function isSubscriptionEntitled(state: SubscriptionState, now: number = Date.now()): boolean {
+  if (state.status === 'none' || state.status === 'expired') return false;
+  return state.periodEnd === null || state.periodEnd > now;
+}
+
+function toTimestamp(value: Date | number | string | undefined): number | null {
+  if (value === undefined || value === null) return null;
+
+  const time = value instanceof Date ? value.getTime() : typeof value === 'number' ? value : Date.parse(value);
+  return isNaN(time) ? null : time;
+}
@@ -0,0 +1,266 @@
+import { QueuedEvent } from './event-queue';
+
+/**
+ * Messages exchanged between tabs of the same site
+ */
+export type TabMessage =
+  | { type: 'hello' | 'state' | 'bye'; tabId: string; visible: boolean }
+  | { type: 'queue'; tabId: string; events: QueuedEvent[] };
+
+/**
+ * Callbacks from the coordinator to the SDK
+ */
+export interface TabCoordinatorHandlers {
+  onLeaderChange?: (isLeader: boolean) => void;
+  onQueuedEvents?: (events: QueuedEvent[]) => void; // Only called on the leader
+}
+
+interface LeaderLease {
+  tabId: string;
+  expiresAt: number;
+}
+
+interface PeerTab {
+  visible: boolean;
+  lastSeen: number;
+}
+
+const HEARTBEAT_INTERVAL = 3000;
+const LEASE_DURATION = 10000; // Outlives a few missed heartbeats
+const PEER_TIMEOUT = 10000;
+const TAKEOVER_JITTER = 500; // Spread out takeovers when the leader leaves
+
+/**
+ * Coordinates SDK instances in several tabs. Messages go over
+ * BroadcastChannel, or through `storage` events where it is missing.
+ * The leader is the tab holding a lease in localStorage; it alone
+ * flushes the shared event queue.
+ */
+export class TabCoordinator {
+  readonly tabId = `tab_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+  private channel: BroadcastChannel | null = null;
+  private peers = new Map<string, PeerTab>();
+  private leader = false;
+  private visible = true;
+  private started = false;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly leaseKey: string;
+  private readonly messageKey: string;
+
+  constructor(
+    private readonly name: string,
+    private readonly handlers: TabCoordinatorHandlers = {}
+  ) {
+    this.leaseKey = `${name}_tab_leader`;
+    this.messageKey = `${name}_tab_message`;
+    this.handleMessage = this.handleMessage.bind(this);
+    this.handleStorage = this.handleStorage.bind(this);
+  }
+
+  /**
+   * Join the group of tabs. Leadership is settled synchronously,
+   * without calling onLeaderChange.
+   */
+  start(visible: boolean): void {
+    if (this.started) return;
+    this.started = true;
+    this.visible = visible;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.name);
+      this.channel.addEventListener('message', this.handleMessage);
+    } else {
+      window.addEventListener('storage', this.handleStorage);
+    }
+
+    this.leader = this.claimLease();
+    this.send({ type: 'hello', tabId: this.tabId, visible });
+
+    this.heartbeatTimer = setInterval(() => {
+      this.prunePeers();
+      this.checkLeadership();
+      this.send({ type: 'state', tabId: this.tabId, visible: this.visible });
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  /**
+   * Leave the group, handing leadership to another tab
+   */
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    if (this.leader) {
+      this.releaseLease();
+      this.leader = false;
+    }
+    this.send({ type: 'bye', tabId: this.tabId, visible: false });
+
+    if (this.channel) {
+      this.channel.removeEventListener('message', this.handleMessage);
+      this.channel.close();
+      this.channel = null;
+    } else {
+      window.removeEventListener('storage', this.handleStorage);
+    }
+    this.peers.clear();
+  }
+
+  /**
+   * Whether this tab currently holds the leader lease. Only reads the
+   * lease; it is renewed on the heartbeat.
+   */
+  isLeader(): boolean {
+    if (!this.started) return this.leader;
+
+    // Another tab took over since the last heartbeat
+    const lease = this.readLease();
+    if (this.leader && lease && lease.tabId !== this.tabId && lease.expiresAt > Date.now()) {
+      this.checkLeadership();
+    }
+    return this.leader;
+  }
+
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.send({ type: 'state', tabId: this.tabId, visible });
+  }
+
+  hasOtherTabs(): boolean {
+    this.prunePeers();
+    return this.peers.size > 0;
+  }
+
+  hasOtherVisibleTabs(): boolean {
+    this.prunePeers();
+    let visible = false;
+    this.peers.forEach(peer => {
+      if (peer.visible) visible = true;
+    });
+    return visible;
+  }
+
+  /**
+   * Hand queued events to the leader tab
+   */
+  forwardToLeader(events: QueuedEvent[]): void {
+    this.send({ type: 'queue', tabId: this.tabId, events });
+  }
+
+  private send(message: TabMessage): void {
+    if (!this.started && message.type !== 'bye') return;
+
+    try {
+      if (this.channel) {
+        this.channel.postMessage(message);
+      } else {
+        // The nonce makes repeated identical messages still fire a storage event
+        localStorage.setItem(this.messageKey, JSON.stringify({ ...message, nonce: Math.random() }));
+      }
+    } catch (e) {
+      // Coordination is best effort
+    }
+  }
+
+  private handleStorage(event: StorageEvent): void {
+    if (event.key !== this.messageKey || !event.newValue) return;
+
+    try {
+      this.handleMessage({ data: JSON.parse(event.newValue) } as MessageEvent);
+    } catch (e) {
+      // Ignore malformed messages
+    }
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    const message = event.data as TabMessage;
+    if (!message || message.tabId === this.tabId) return;
+
+    switch (message.type) {
+      case 'hello':
+        this.peers.set(message.tabId, { visible: message.visible, lastSeen: Date.now() });
+        // Let the new tab know we exist
+        this.send({ type: 'state', tabId: this.tabId, visible: this.visible });
+        break;
+      case 'state':
+        this.peers.set(message.tabId, { visible: message.visible, lastSeen: Date.now() });
+        break;
+      case 'bye':
+        this.peers.delete(message.tabId);
+        setTimeout(() => {
+          if (this.started) this.checkLeadership();
+        }, Math.random() * TAKEOVER_JITTER);
+        break;
+      case 'queue':
+        this.peers.set(message.tabId, { visible: this.peers.get(message.tabId)?.visible ?? false, lastSeen: Date.now() });
+        if (this.isLeader() && this.handlers.onQueuedEvents) {
+          this.handlers.onQueuedEvents(message.events);
+        }
+        break;
+    }
+  }
+
+  private prunePeers(): void {
+    const now = Date.now();
+    this.peers.forEach((peer, tabId) => {
+      if (now - peer.lastSeen > PEER_TIMEOUT) {
+        this.peers.delete(tabId);
+      }
+    });
+  }
+
+  private checkLeadership(): void {
+    const isLeader = this.claimLease();
+    if (isLeader !== this.leader) {
+      this.leader = isLeader;
+      if (this.handlers.onLeaderChange) {
+        this.handlers.onLeaderChange(isLeader);
+      }
+    }
+  }
+
+  /**
+   * Take or renew the lease unless another live tab holds it
+   */
+  private claimLease(): boolean {
+    try {
+      const now = Date.now();
+      const lease = this.readLease();
+
+      if (lease && lease.tabId !== this.tabId && lease.expiresAt > now) {
+        return false;
+      }
+
+      localStorage.setItem(this.leaseKey, JSON.stringify({ tabId: this.tabId, expiresAt: now + LEASE_DURATION }));
+      return true;
+    } catch (e) {
+      return true; // Without storage every tab works on its own
+    }
+  }
+
+  private readLease(): LeaderLease | null {
+    try {
+      const stored = localStorage.getItem(this.leaseKey);
+      return stored ? JSON.parse(stored) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private releaseLease(): void {
+    try {
+      const stored = localStorage.getItem(this.leaseKey);
+      if (stored && JSON.parse(stored).tabId === this.tabId) {
+        localStorage.removeItem(this.leaseKey);
+      }
+    } catch (e) {
+      // Ignore storage errors
+    }
+  }
+}
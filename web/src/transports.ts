@@ -0,0 +1,183 @@
+/**
+ * Request handed to a transport
+ */
+export interface TransportRequest {
+  url: string;
+  method: 'GET' | 'POST';
+  body?: string;
+  contentType?: string;
+  keepalive?: boolean; // Set when the page is unloading and no response will be read
+}
+
+/**
+ * Minimal response shape the SDK needs from a transport
+ */
+export interface TransportResponse {
+  ok: boolean;
+  status: number;
+  statusText?: string;
+  headers?: { get(name: string): string | null };
+  json(): Promise<any>;
+  text(): Promise<string>;
+}
+
+/**
+ * Transport interface. Resolve with `null` when the request could not be
+ * delivered at all (network error, blocked by the browser).
+ */
+export interface Transport {
+  readonly name: string;
+  supports?(request: TransportRequest): boolean;
+  send(request: TransportRequest): Promise<TransportResponse | null>;
+}
+
+/**
+ * Sends requests with fetch
+ */
+export class FetchTransport implements Transport {
+  readonly name = 'fetch';
+
+  supports(): boolean {
+    return typeof fetch !== 'undefined';
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse | null> {
+    try {
+      return await fetch(request.url, {
+        method: request.method,
+        mode: 'cors',
+        credentials: 'omit', // Don't send cookies to avoid tracking blockers
+        headers: request.body !== undefined
+          ? { 'Content-Type': request.contentType || 'application/json' }
+          : undefined,
+        body: request.body,
+        keepalive: request.keepalive,
+      });
+    } catch (error) {
+      // Blocked by an ad blocker or offline
+      return null;
+    }
+  }
+}
+
+/**
+ * Sends requests with XMLHttpRequest, for browsers where fetch is blocked
+ */
+export class XHRTransport implements Transport {
+  readonly name = 'xhr';
+
+  constructor(private readonly timeout = 10000) {}
+
+  supports(request: TransportRequest): boolean {
+    // Async XHR is cancelled when the page unloads
+    return typeof XMLHttpRequest !== 'undefined' && !request.keepalive;
+  }
+
+  send(request: TransportRequest): Promise<TransportResponse | null> {
+    return new Promise(resolve => {
+      try {
+        const xhr = new XMLHttpRequest();
+        xhr.open(request.method, request.url, true);
+        if (request.body !== undefined) {
+          xhr.setRequestHeader('Content-Type', request.contentType || 'application/json');
+        }
+
+        // Create a Response-like object
+        xhr.onload = () => {
+          resolve({
+            ok: xhr.status >= 200 && xhr.status < 300,
+            status: xhr.status,
+            statusText: xhr.statusText,
+            headers: { get: (name: string) => xhr.getResponseHeader(name) },
+            text: () => Promise.resolve(xhr.responseText),
+            json: () => Promise.resolve(JSON.parse(xhr.responseText)),
+          });
+        };
+
+        xhr.onerror = () => resolve(null);
+        xhr.timeout = this.timeout;
+        xhr.ontimeout = () => resolve(null);
+
+        xhr.send(request.body ?? null);
+      } catch (error) {
+        resolve(null);
+      }
+    });
+  }
+}
+
+/**
+ * Sends requests with navigator.sendBeacon. Only used for unload requests
+ * by default; the browser always POSTs and gives no response back.
+ */
+export class BeaconTransport implements Transport {
+  readonly name = 'beacon';
+
+  constructor(private readonly unloadOnly = true) {}
+
+  supports(request: TransportRequest): boolean {
+    return typeof navigator !== 'undefined' &&
+      typeof navigator.sendBeacon === 'function' &&
+      (!this.unloadOnly || !!request.keepalive);
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse | null> {
+    try {
+      // text/plain keeps the beacon a CORS-safelisted request
+      const data = request.body !== undefined
+        ? new Blob([request.body], { type: 'text/plain;charset=UTF-8' })
+        : undefined;
+
+      if (!navigator.sendBeacon(request.url, data)) {
+        return null;
+      }
+
+      return {
+        ok: true,
+        status: 202,
+        statusText: 'Accepted',
+        text: () => Promise.resolve(''),
+        json: () => Promise.resolve(null),
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Tries each transport in order until one delivers the request
+ */
+export class TransportChain implements Transport {
+  readonly name: string;
+
+  constructor(private readonly transports: Transport[]) {
+    this.name = `chain(${transports.map(transport => transport.name).join(',')})`;
+  }
+
+  supports(request: TransportRequest): boolean {
+    return this.transports.some(transport => !transport.supports || transport.supports(request));
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse | null> {
+    for (const transport of this.transports) {
+      if (transport.supports && !transport.supports(request)) continue;
+
+      try {
+        const response = await transport.send(request);
+        if (response) return response;
+      } catch (error) {
+        // Fall through to the next transport
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Default transport: sendBeacon on unload, otherwise fetch with an XHR fallback
+ */
+export function createDefaultTransport(): Transport {
+  return new TransportChain([new BeaconTransport(), new FetchTransport(), new XHRTransport()]);
+}
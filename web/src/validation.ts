@@ -0,0 +1,53 @@
+/**
+ * Runtime type of an event field
+ */
+export type EventFieldType = 'string' | 'number' | 'boolean';
+
+/**
+ * Schema for a single event field
+ */
+export interface EventFieldSchema {
+  type?: EventFieldType;
+  required?: boolean;
+  enum?: Array<string | number | boolean>;
+}
+
+/**
+ * Schema for an event: field name to field schema
+ */
+export type EventSchema = Record<string, EventFieldSchema>;
+
+/**
+ * Validate event parameters against a schema, returning the problems found
+ */
+export function validateEventParameters(parameters: Record<string, any>, schema: EventSchema): string[] {
+  const errors: string[] = [];
+
+  Object.keys(schema).forEach(field => {
+    const rules = schema[field];
+    const value = parameters[field];
+
+    if (value === undefined || value === null || value === '') {
+      if (rules.required) {
+        errors.push(`"${field}" is required`);
+      }
+      return;
+    }
+
+    if (rules.type && typeof value !== rules.type) {
+      errors.push(`"${field}" must be a ${rules.type}, got ${typeof value}`);
+      return;
+    }
+
+    if (rules.type === 'number' && isNaN(value)) {
+      errors.push(`"${field}" must be a number, got NaN`);
+      return;
+    }
+
+    if (rules.enum && rules.enum.indexOf(value) === -1) {
+      errors.push(`"${field}" must be one of ${rules.enum.join(', ')}`);
+    }
+  });
+
+  return errors;
+}